@@ -13,6 +13,9 @@ const gitignorePath = path.resolve(__dirname, ".gitignore")
 
 export default tseslint.config(
   includeIgnoreFile(gitignorePath),
+  // Each integration project is linted with its own ESLint version and
+  // seatbelt file.
+  { ignores: ["integration/"] },
   eslint.configs.recommended,
   ...tseslint.configs.recommended,
   seatbelt.configs.enable,
@@ -0,0 +1,84 @@
+#!/usr/bin/env -S pnpm exec tsx
+
+/**
+ * Compares writing the seatbelt file after every linted file with writing it
+ * once at the end of the run, like the ESLint CLI does.
+ *
+ * ./scripts/benchmark-flush.ts --entries 40000 --files 200
+ */
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { parse } from "ts-command-line-args"
+import { SeatbeltFile } from "../src/SeatbeltFile"
+import { SeatbeltArgs } from "../src/SeatbeltConfig"
+
+interface BenchmarkArgs {
+  entries: number
+  files: number
+}
+
+const RULES = ["no-console", "no-undef", "no-unused-vars", "eqeqeq"]
+
+const print = (line: string) => process.stdout.write(`${line}\n`)
+
+function createSeatbeltFile(dir: string, entries: number) {
+  const lines: string[] = []
+  for (let i = 0; lines.length < entries; i++) {
+    for (const ruleId of RULES.slice(0, entries - lines.length)) {
+      lines.push(`"src/file${i}.ts"\t"${ruleId}"\t10\n`)
+    }
+  }
+  const filename = path.join(dir, "eslint.seatbelt.tsv")
+  fs.writeFileSync(filename, lines.join(""))
+  return filename
+}
+
+function run(
+  filename: string,
+  linted: number,
+  flush: "per-file" | "deferred",
+): number {
+  const seatbeltFile = SeatbeltFile.readSync(filename)
+  const args = SeatbeltArgs.fromConfig({ seatbeltFile: filename })
+  const counts = new Map(RULES.map((ruleId) => [ruleId, 5]))
+  const start = performance.now()
+  for (let i = 0; i < linted; i++) {
+    seatbeltFile.updateMaxErrors(
+      path.join(path.dirname(filename), `src/file${i}.ts`),
+      args,
+      counts,
+    )
+    if (flush === "per-file") {
+      seatbeltFile.flushChanges()
+    }
+  }
+  seatbeltFile.flushChanges()
+  return performance.now() - start
+}
+
+function main() {
+  const { entries, files } = parse<BenchmarkArgs>({
+    entries: { type: Number, defaultValue: 40_000 },
+    files: { type: Number, defaultValue: 200 },
+  })
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "seatbelt-benchmark-"))
+  try {
+    const results = (["per-file", "deferred"] as const).map((flush) => {
+      const filename = createSeatbeltFile(dir, entries)
+      const ms = run(filename, files, flush)
+      print(`${flush.padEnd(8)}  ${ms.toFixed(0).padStart(7)}ms`)
+      return ms
+    })
+    print(
+      `${entries} entries, ${files} changed files: deferred flush is ${(results[0] / results[1]).toFixed(1)}x faster`,
+    )
+  } finally {
+    fs.rmSync(dir, { recursive: true })
+  }
+}
+
+if (require.main === module) {
+  main()
+}
@@ -14,7 +14,9 @@ async function main() {
 
   const filepath = resolve(root, "src/jsonSchema/SeatbeltConfigSchema.ts")
 
-  const schema = TJS.generateSchema(program, "SeatbeltConfig")
+  // ESLint wraps rule schemas in an array schema, so `#/definitions/...`
+  // refs wouldn't resolve. Inline all types instead.
+  const schema = TJS.generateSchema(program, "SeatbeltConfig", { ref: false })
   const ts = `
 // This file is generated by running ./scripts/make-json-schemas.ts
 
@@ -0,0 +1,91 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import { spawnSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { FileLock, FileLockInfo } from "./FileLock"
+
+function deadPid() {
+  // The child has exited by the time spawnSync returns.
+  const child = spawnSync(process.execPath, ["-e", ""])
+  assert.ok(child.pid)
+  return child.pid
+}
+
+describe("FileLock", () => {
+  let tmpDir: string
+  let filename: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-lock-"))
+    filename = path.join(tmpDir, "test.lock")
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  const writeLock = (info: FileLockInfo) =>
+    fs.writeFileSync(filename, JSON.stringify(info))
+
+  test("tryLock() records owner metadata", () => {
+    const lock = new FileLock(filename)
+    assert.strictEqual(lock.tryLock(), true)
+    const info = FileLock.readInfo(filename)
+    assert.strictEqual(info?.pid, process.pid)
+    assert.strictEqual(info?.hostname, os.hostname())
+    assert.ok(!Number.isNaN(Date.parse(info.acquiredAt)))
+
+    assert.strictEqual(new FileLock(filename).tryLock(), false)
+    lock.unlock()
+    assert.strictEqual(fs.existsSync(filename), false)
+  })
+
+  test("waitLock() breaks locks held by dead processes on this host", () => {
+    writeLock({
+      pid: deadPid(),
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString(),
+    })
+    const lock = new FileLock(filename)
+    lock.waitLock(1000)
+    assert.strictEqual(FileLock.readInfo(filename)?.pid, process.pid)
+    lock.unlock()
+  })
+
+  test("waitLock() breaks locks older than staleMs", () => {
+    writeLock({
+      pid: process.pid,
+      hostname: "some-other-host",
+      acquiredAt: new Date(Date.now() - 10_000).toISOString(),
+    })
+    const lock = new FileLock(filename, { staleMs: 5_000 })
+    lock.waitLock(1000)
+    assert.strictEqual(FileLock.readInfo(filename)?.hostname, os.hostname())
+    lock.unlock()
+  })
+
+  test("waitLock() times out on live locks", () => {
+    const owner = new FileLock(filename)
+    owner.tryLock()
+    assert.throws(
+      () => new FileLock(filename).waitLock(20),
+      /Timed out after 20ms waiting for lock .* held by pid \d+/,
+    )
+    owner.unlock()
+  })
+
+  test("unlock() leaves locks acquired by other processes", () => {
+    const lock = new FileLock(filename)
+    lock.tryLock()
+    // Simulate our lock being broken as stale and re-acquired elsewhere.
+    writeLock({
+      pid: process.pid + 1,
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString(),
+    })
+    lock.unlock()
+    assert.strictEqual(fs.existsSync(filename), true)
+  })
+})
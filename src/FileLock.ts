@@ -1,37 +1,191 @@
-import { openSync, writeSync, closeSync, constants, rmSync } from "node:fs"
+import {
+  openSync,
+  writeSync,
+  closeSync,
+  constants,
+  rmSync,
+  readFileSync,
+  renameSync,
+  linkSync,
+  statSync,
+} from "node:fs"
+import { hostname } from "node:os"
 import { isErrno } from "./errorHanding"
 const { O_CREAT, O_EXCL, O_RDWR } = constants
 
 const waitBuffer = new Int32Array(new SharedArrayBuffer(4))
 
-/** Uses posix open(2) O_EXCL to implement a multi-process mutual exclusion lock. */
+/** Locks older than this are considered abandoned. */
+export const DEFAULT_STALE_LOCK_MS = 60_000
+
+/** Written into the lock file to identify its owner. */
+export interface FileLockInfo {
+  pid: number
+  hostname: string
+  /** ISO 8601 timestamp */
+  acquiredAt: string
+}
+
+export interface FileLockOptions {
+  /**
+   * Break locks older than this many milliseconds, even if the owning process
+   * may still be alive. Default: {@link DEFAULT_STALE_LOCK_MS}
+   */
+  staleMs?: number
+}
+
+/**
+ * Uses posix open(2) O_EXCL to implement a multi-process mutual exclusion lock.
+ *
+ * The lock file records the owner's pid, hostname and acquisition time. Locks
+ * left behind by dead processes on this host, or older than
+ * {@link FileLockOptions.staleMs}, are broken by {@link waitLock}.
+ */
 export class FileLock {
   private fd: number | undefined
-  constructor(public readonly filename: string) {}
+  private info: FileLockInfo | undefined
+  private readonly staleMs: number
+
+  constructor(
+    public readonly filename: string,
+    options: FileLockOptions = {},
+  ) {
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_LOCK_MS
+  }
+
+  /** Read the owner of the lock file, if it exists and is complete. */
+  static readInfo(filename: string): FileLockInfo | undefined {
+    let text: string
+    try {
+      text = readFileSync(filename, "utf8")
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        return undefined
+      }
+      throw e
+    }
+    return parseLockInfo(text)
+  }
+
+  /** True if `info` belongs to a process on this host that is still running. */
+  static isOwnerAlive(info: FileLockInfo): boolean {
+    if (info.hostname !== hostname()) {
+      // Can't tell, assume it's alive.
+      return true
+    }
+    try {
+      process.kill(info.pid, 0)
+      return true
+    } catch (e) {
+      // EPERM means the process exists but belongs to another user.
+      return !isErrno(e, "ESRCH")
+    }
+  }
+
+  /** Remove the lock file regardless of who owns it. */
+  static forceUnlock(filename: string): boolean {
+    try {
+      rmSync(filename)
+      return true
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        return false
+      }
+      throw e
+    }
+  }
 
   tryLock() {
     this.assertNotLocked()
     try {
       this.fd = openSync(this.filename, O_CREAT | O_EXCL | O_RDWR)
-      return true
     } catch (e) {
       if (isErrno(e, "EEXIST")) {
         return false
       }
       throw e
     }
+    this.info = {
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: new Date().toISOString(),
+    }
+    writeSync(this.fd, JSON.stringify(this.info))
+    return true
   }
 
   waitLock(timeoutMs: number) {
     const deadline = Date.now() + timeoutMs
     while (!this.tryLock()) {
+      if (this.breakStaleLock()) {
+        continue
+      }
       if (Date.now() > deadline) {
-        throw new Error(`Timed out waiting for lock on ${this.filename}`)
+        const owner = FileLock.readInfo(this.filename)
+        const ownerText = owner
+          ? ` held by pid ${owner.pid} on ${owner.hostname} since ${owner.acquiredAt}`
+          : ""
+        throw new Error(
+          `Timed out after ${timeoutMs}ms waiting for lock on ${this.filename}${ownerText}`,
+        )
       }
       Atomics.wait(waitBuffer, 0, 0, 1)
     }
   }
 
+  /**
+   * Remove the lock file if its owner is dead or it is older than `staleMs`.
+   * Returns true if a stale lock was removed.
+   */
+  breakStaleLock(): boolean {
+    let text: string
+    let mtimeMs: number
+    try {
+      text = readFileSync(this.filename, "utf8")
+      mtimeMs = statSync(this.filename).mtimeMs
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        // Released in the meantime.
+        return false
+      }
+      throw e
+    }
+
+    const info = parseLockInfo(text)
+    const acquiredAt = info ? Date.parse(info.acquiredAt) : mtimeMs
+    const expired = Date.now() - acquiredAt > this.staleMs
+    const ownerDead = info !== undefined && !FileLock.isOwnerAlive(info)
+    if (!expired && !ownerDead) {
+      return false
+    }
+
+    // Move the lock aside before deleting it, so we never delete a fresh lock
+    // acquired by another process after we read the stale one.
+    const stalePath = `${this.filename}.stale.${process.pid}`
+    try {
+      renameSync(this.filename, stalePath)
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        return false
+      }
+      throw e
+    }
+    if (readFileSync(stalePath, "utf8") !== text) {
+      // We moved someone else's lock. Put it back unless another lock exists.
+      try {
+        linkSync(stalePath, this.filename)
+      } catch (e) {
+        if (!isErrno(e, "EEXIST")) {
+          throw e
+        }
+      }
+      rmSync(stalePath)
+      return false
+    }
+    rmSync(stalePath)
+    return true
+  }
+
   isLocked() {
     return this.fd !== undefined
   }
@@ -39,8 +193,18 @@ export class FileLock {
   unlock() {
     if (this.fd !== undefined) {
       closeSync(this.fd)
-      rmSync(this.filename)
       this.fd = undefined
+      // If our lock was broken as stale, the file may now belong to someone else.
+      const current = FileLock.readInfo(this.filename)
+      if (
+        current &&
+        current.pid === this.info?.pid &&
+        current.hostname === this.info.hostname &&
+        current.acquiredAt === this.info.acquiredAt
+      ) {
+        FileLock.forceUnlock(this.filename)
+      }
+      this.info = undefined
     }
   }
 
@@ -52,3 +216,19 @@ export class FileLock {
     }
   }
 }
+
+function parseLockInfo(text: string): FileLockInfo | undefined {
+  try {
+    const info = JSON.parse(text)
+    if (
+      typeof info?.pid === "number" &&
+      typeof info.hostname === "string" &&
+      typeof info.acquiredAt === "string"
+    ) {
+      return info
+    }
+  } catch {
+    // Empty or partially written lock file.
+  }
+  return undefined
+}
@@ -1,10 +1,19 @@
 import { RuleId } from "./SeatbeltFile"
 import { name } from "../package.json"
 import path from "node:path"
-import { findRepoRoot } from "./repoIntegration"
+import { findNearestFile, findRepoRoot } from "./repoIntegration"
+import {
+  DEFAULT_LOCALE,
+  SEATBELT_MESSAGE_LOCALES,
+  SeatbeltLocale,
+} from "./messageLocales"
+import { SeatbeltMessageTemplates } from "./SeatbeltMessage"
 
 export const SEATBELT_FILE_NAME = "eslint.seatbelt.tsv"
 
+/** Suppression kind of errors allowed by the seatbelt file, see `allowedSeverity`. */
+export const SEATBELT_SUPPRESSION_KIND = name
+
 export const SEATBELT_FROZEN = "SEATBELT_FROZEN"
 export const SEATBELT_INCREASE = "SEATBELT_INCREASE"
 export const SEATBELT_KEEP = "SEATBELT_KEEP"
@@ -12,8 +21,16 @@ export const SEATBELT_FILE = "SEATBELT_FILE"
 export const SEATBELT_PWD = "SEATBELT_PWD"
 export const SEATBELT_DISABLE = "SEATBELT_DISABLE"
 export const SEATBELT_THREADSAFE = "SEATBELT_THREADSAFE"
+export const SEATBELT_FINGERPRINTS = "SEATBELT_FINGERPRINTS"
 export const SEATBELT_VERBOSE = "SEATBELT_VERBOSE"
 export const SEATBELT_ROOT = "SEATBELT_ROOT"
+export const SEATBELT_LOCK_TIMEOUT = "SEATBELT_LOCK_TIMEOUT"
+export const SEATBELT_STORAGE = "SEATBELT_STORAGE"
+export const SEATBELT_DRY_RUN = "SEATBELT_DRY_RUN"
+export const SEATBELT_FROZEN_OUTPUT = "SEATBELT_FROZEN_OUTPUT"
+export const SEATBELT_ALLOWED_SEVERITY = "SEATBELT_ALLOWED_SEVERITY"
+export const SEATBELT_MESSAGE_SUFFIX = "SEATBELT_MESSAGE_SUFFIX"
+export const SEATBELT_LOCALE = "SEATBELT_LOCALE"
 
 const ENV_VARS = {
   SEATBELT_FROZEN,
@@ -23,8 +40,16 @@ const ENV_VARS = {
   SEATBELT_PWD,
   SEATBELT_DISABLE,
   SEATBELT_THREADSAFE,
+  SEATBELT_FINGERPRINTS,
   SEATBELT_VERBOSE,
   SEATBELT_ROOT,
+  SEATBELT_LOCK_TIMEOUT,
+  SEATBELT_STORAGE,
+  SEATBELT_DRY_RUN,
+  SEATBELT_FROZEN_OUTPUT,
+  SEATBELT_ALLOWED_SEVERITY,
+  SEATBELT_MESSAGE_SUFFIX,
+  SEATBELT_LOCALE,
   CI: "CI",
   JEST_WORKER_ID: "JEST_WORKER_ID",
 }
@@ -82,7 +107,10 @@ export interface SeatbeltConfig {
    * The seatbelt file stores the max error counts allowed for each file. Should
    * be an absolute path.
    *
-   * If not provided, $SEATBELT_PWD/eslint.seatbelt.tsv or $PWD/eslint.seatbelt.tsv will be used.
+   * If not provided, seatbelt uses the nearest existing `eslint.seatbelt.tsv` in
+   * the linted file's directory or its ancestors, up to the repository root.
+   * This lets each package in a monorepo own its seatbelt file. If there is
+   * none, $SEATBELT_PWD/eslint.seatbelt.tsv or $PWD/eslint.seatbelt.tsv will be used.
    *
    * ```js
    * // in eslint.config.js
@@ -107,6 +135,34 @@ export interface SeatbeltConfig {
    * ```
    */
   seatbeltFile?: string
+  /**
+   * Map glob patterns to seatbelt files, so different parts of the codebase
+   * can have their own seatbelt file, for example to give each team a
+   * CODEOWNERS-protected budget. The first pattern matching a linted file
+   * wins. Files that match no pattern use `seatbeltFile` or the default.
+   *
+   * Patterns and relative seatbelt file paths are resolved from `root`, or
+   * the repository root containing $SEATBELT_PWD or $PWD, so they match the
+   * same files when ESLint runs from a subdirectory. The `SEATBELT_FILE`
+   * environment variable overrides this setting for all files.
+   *
+   * ```js
+   * // in eslint.config.js
+   * const config = [
+   *   {
+   *     settings: {
+   *       seatbelt: {
+   *         seatbeltFiles: {
+   *           "packages/ui/**": "packages/ui/eslint.seatbelt.tsv",
+   *           "packages/{api,server}/**": "backend.seatbelt.tsv",
+   *         },
+   *       }
+   *     }
+   *   }
+   * ]
+   * ```
+   */
+  seatbeltFiles?: { [glob: string]: string }
   /**
    * By default whenever a file is linted and a rule has no errors, that rule's
    * max errors for the file is set to zero.
@@ -235,6 +291,24 @@ export interface SeatbeltConfig {
    * ```
    */
   frozen?: boolean
+
+  /**
+   * In `frozen` mode, where would-be changes are errors, write the seatbelt
+   * file as a non-frozen run would have updated it to this path when ESLint
+   * exits. CI can upload it so developers can copy it over the seatbelt file
+   * instead of re-running ESLint locally. Nothing is written if there are no
+   * changes.
+   *
+   * If the path is an existing directory, each seatbelt file is written
+   * inside it at its path relative to `root`.
+   *
+   * This can be set with the `SEATBELT_FROZEN_OUTPUT` environment variable:
+   *
+   * ```bash
+   * CI=1 SEATBELT_FROZEN_OUTPUT=artifacts/eslint.seatbelt.tsv eslint
+   * ```
+   */
+  frozenOutput?: string
   /**
    * Completely disable seatbelt error processing for a lint run while leaving it otherwise configured.
    *
@@ -296,6 +370,59 @@ export interface SeatbeltConfig {
    */
   threadsafe?: boolean
 
+  /**
+   * Track each allowed error by a fingerprint instead of only counting them.
+   *
+   * With counts alone, fixing one error and adding a new one of the same
+   * type in the same file goes unnoticed. In fingerprint mode, each allowed
+   * error is stored with a hash of its rule, message, source code and the
+   * surrounding lines, but not its line number, so it still matches when code
+   * above it moves. Errors whose fingerprint isn't in the seatbelt file are
+   * reported as errors even if the count didn't increase.
+   *
+   * Existing count-only entries are converted to fingerprints the next time
+   * their file is linted without `frozen`, as long as the file is within its
+   * budget.
+   *
+   * This can be set with the `SEATBELT_FINGERPRINTS` environment variable:
+   *
+   * ```bash
+   * SEATBELT_FINGERPRINTS=1 eslint
+   * ```
+   *
+   * Or in ESLint config:
+   *
+   * ```js
+   * // in eslint.config.js
+   * const config = [
+   *   {
+   *     settings: {
+   *       seatbelt: {
+   *         fingerprints: true,
+   *       }
+   *     }
+   *   }
+   * ]
+   * ```
+   */
+  fingerprints?: boolean
+
+  /**
+   * Compute seatbelt file updates as usual, but don't write them. When the
+   * ESLint CLI exits, print a diff of the max errors that would have been
+   * increased, decreased or removed.
+   *
+   * Useful to preview the effect of `SEATBELT_INCREASE` before running it for
+   * real. Has no effect when `frozen` is set, since nothing would change.
+   *
+   * This can be set with the `SEATBELT_DRY_RUN` environment variable:
+   *
+   * ```bash
+   * SEATBELT_DRY_RUN=1 SEATBELT_INCREASE=ALL eslint
+   * ```
+   */
+  dryRun?: boolean
+
   /**
    * Enable verbose logging.
    *
@@ -333,8 +460,136 @@ export interface SeatbeltConfig {
    * This can be set with the `SEATBELT_ROOT` environment variable.
    */
   root?: string
+
+  /**
+   * How long to wait for the seatbelt file lock in `threadsafe` mode, in
+   * milliseconds. If the lock can't be acquired in time, linting the file fails
+   * with an error. Default: 10000 (10 seconds).
+   *
+   * This can be set with the `SEATBELT_LOCK_TIMEOUT` environment variable.
+   *
+   * ```bash
+   * SEATBELT_THREADSAFE=1 SEATBELT_LOCK_TIMEOUT=30000 eslint-parallel
+   * ```
+   */
+  lockTimeout?: number
+
+  /**
+   * How the seatbelt file is stored:
+   *
+   * - `tsv`: tab-separated JSON lines, easy to review and merge. The default.
+   * - `json`: a single JSON object.
+   * - `sqlite`: a SQLite database with a `seatbelt_entries` table, for
+   *   querying budgets with SQL. Requires Node.js 22.5 or later.
+   *
+   * By default this is inferred from the extension of `seatbeltFile`: `.json`
+   * for `json`, `.sqlite`, `.sqlite3` or `.db` for `sqlite`, otherwise `tsv`.
+   *
+   * This can be set with the `SEATBELT_STORAGE` environment variable:
+   *
+   * ```bash
+   * SEATBELT_FILE=eslint.seatbelt.db SEATBELT_STORAGE=sqlite eslint
+   * ```
+   */
+  storage?: SeatbeltStorage
+
+  /**
+   * How errors allowed by the seatbelt file are reported:
+   *
+   * - `warn`: downgraded to warnings. The default.
+   * - `suppress`: moved to ESLint's suppressed messages with the suppression
+   *   kind `eslint-seatbelt`, like errors disabled by an
+   *   `eslint-disable` comment. ESLint versions before 8.8 don't support
+   *   suppressed messages, so they are dropped instead.
+   * - `off`: dropped entirely.
+   *
+   * Use `suppress` or `off` to keep allowed errors out of
+   * `eslint --max-warnings 0` and editor squiggles. Errors over the limit and
+   * `frozen` mismatches are reported as errors in every mode.
+   *
+   * This can be set with the `SEATBELT_ALLOWED_SEVERITY` environment variable:
+   *
+   * ```bash
+   * SEATBELT_ALLOWED_SEVERITY=suppress eslint --max-warnings 0
+   * ```
+   */
+  allowedSeverity?: SeatbeltAllowedSeverity
+
+  /**
+   * Append an explanation like "This file is temporarily allowed to have 2
+   * errors of this type" to the text of lint messages changed by seatbelt.
+   * Default: true.
+   *
+   * Changed messages always have a `seatbelt` property with the same
+   * information in a machine-readable form, see `SeatbeltMessageData`. Set
+   * this to false if your formatter or tooling reads that instead.
+   *
+   * This can be set with the `SEATBELT_MESSAGE_SUFFIX` environment variable:
+   *
+   * ```bash
+   * SEATBELT_MESSAGE_SUFFIX=0 eslint --format json
+   * ```
+   */
+  messageSuffix?: boolean
+
+  /**
+   * Language of the explanations appended to lint messages: `en` (the
+   * default) or `de`.
+   *
+   * This can be set with the `SEATBELT_LOCALE` environment variable:
+   *
+   * ```bash
+   * SEATBELT_LOCALE=de eslint
+   * ```
+   */
+  locale?: SeatbeltLocale
+
+  /**
+   * Custom templates for the explanations appended to lint messages, by the
+   * status of the message. Statuses without a template use the `locale`.
+   *
+   * Templates can use these placeholders:
+   *
+   * - `{errorCount}`: errors of the rule in the linted file.
+   * - `{maxErrorCount}`: errors of the rule allowed in the linted file.
+   * - `{excessCount}`: errors over the allowed count.
+   * - `{fixedCount}`: errors under the allowed count.
+   * - `{ruleId}`, `{filename}` and `{seatbeltFile}`.
+   * - `{fixCommand}`: a command that updates the seatbelt file.
+   * - `{pattern}`: the aggregate budget pattern, only for `aggregate-budget`.
+   * - `{expiresAt}`: the deadline, only for `expired`.
+   *
+   * Count placeholders can have a singular and plural form, where `#` is the
+   * count: `{errorCount|# error|# errors}`. Unknown placeholders are an error.
+   *
+   * ```js
+   * // in eslint.config.js
+   * settings: {
+   *   seatbelt: {
+   *     messages: {
+   *       "over-limit": "{excessCount|# new error|# new errors} of this type. See https://wiki.example.com/lint-debt",
+   *     },
+   *   },
+   * }
+   * ```
+   */
+  messages?: SeatbeltMessageTemplates
 }
 
+export type SeatbeltStorage = "tsv" | "json" | "sqlite"
+
+const SEATBELT_STORAGES: readonly SeatbeltStorage[] = ["tsv", "json", "sqlite"]
+
+export type SeatbeltAllowedSeverity = "warn" | "suppress" | "off"
+
+const SEATBELT_ALLOWED_SEVERITIES: readonly SeatbeltAllowedSeverity[] = [
+  "warn",
+  "suppress",
+  "off",
+]
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 10_000
+
 export interface SeatbeltConfigWithPwd extends SeatbeltConfig {
   pwd: string
 }
@@ -378,6 +633,14 @@ export const SeatbeltConfig = {
       pwd: env[SEATBELT_PWD] || process.cwd(),
     }
 
+    const seatbeltFile = env[SEATBELT_FILE]
+    if (seatbeltFile) {
+      config.seatbeltFile = path.resolve(config.pwd, seatbeltFile)
+      log?.(
+        `${padVarName(SEATBELT_FILE)} config.seatbeltFile =`,
+        config.seatbeltFile,
+      )
+    }
     const verbose = SeatbeltEnv.readBooleanEnvVar(env[SEATBELT_VERBOSE])
     if (verbose !== undefined) {
       config.verbose = verbose
@@ -414,11 +677,75 @@ export const SeatbeltConfig = {
         threadsafe,
       )
     }
+    const fingerprints = SeatbeltEnv.readBooleanEnvVar(
+      env[SEATBELT_FINGERPRINTS],
+    )
+    if (fingerprints !== undefined) {
+      config.fingerprints = fingerprints
+      log?.(
+        `${padVarName(SEATBELT_FINGERPRINTS)} config.fingerprints =`,
+        fingerprints,
+      )
+    }
+    const frozenOutput = env[SEATBELT_FROZEN_OUTPUT]
+    if (frozenOutput) {
+      config.frozenOutput = path.resolve(config.pwd, frozenOutput)
+      log?.(
+        `${padVarName(SEATBELT_FROZEN_OUTPUT)} config.frozenOutput =`,
+        config.frozenOutput,
+      )
+    }
+    const dryRun = SeatbeltEnv.readBooleanEnvVar(env[SEATBELT_DRY_RUN])
+    if (dryRun !== undefined) {
+      config.dryRun = dryRun
+      log?.(`${padVarName(SEATBELT_DRY_RUN)} config.dryRun =`, dryRun)
+    }
     const root = env[SEATBELT_ROOT]
     if (root) {
       config.root = root
       log?.(`${padVarName(SEATBELT_ROOT)} config.root =`, root)
     }
+    const lockTimeout = SeatbeltEnv.readNumberEnvVar(
+      SEATBELT_LOCK_TIMEOUT,
+      env[SEATBELT_LOCK_TIMEOUT],
+    )
+    if (lockTimeout !== undefined) {
+      config.lockTimeout = lockTimeout
+      log?.(
+        `${padVarName(SEATBELT_LOCK_TIMEOUT)} config.lockTimeout =`,
+        lockTimeout,
+      )
+    }
+    const storage = SeatbeltEnv.readStorageEnvVar(env[SEATBELT_STORAGE])
+    if (storage !== undefined) {
+      config.storage = storage
+      log?.(`${padVarName(SEATBELT_STORAGE)} config.storage =`, storage)
+    }
+    const allowedSeverity = SeatbeltEnv.readAllowedSeverityEnvVar(
+      env[SEATBELT_ALLOWED_SEVERITY],
+    )
+    if (allowedSeverity !== undefined) {
+      config.allowedSeverity = allowedSeverity
+      log?.(
+        `${padVarName(SEATBELT_ALLOWED_SEVERITY)} config.allowedSeverity =`,
+        allowedSeverity,
+      )
+    }
+    const messageSuffix = SeatbeltEnv.readBooleanEnvVar(
+      env[SEATBELT_MESSAGE_SUFFIX],
+    )
+    if (messageSuffix !== undefined) {
+      config.messageSuffix = messageSuffix
+      log?.(
+        `${padVarName(SEATBELT_MESSAGE_SUFFIX)} config.messageSuffix =`,
+        messageSuffix,
+      )
+    }
+    const locale = SeatbeltEnv.readLocaleEnvVar(env[SEATBELT_LOCALE])
+    if (locale !== undefined) {
+      config.locale = locale
+      log?.(`${padVarName(SEATBELT_LOCALE)} config.locale =`, locale)
+    }
 
     return config
   },
@@ -438,10 +765,18 @@ export interface SeatbeltEnv {
   [SEATBELT_FILE]?: string
   [SEATBELT_PWD]?: string
   [SEATBELT_THREADSAFE]?: string
+  [SEATBELT_FINGERPRINTS]?: string
   [SEATBELT_DISABLE]?: string
   [SEATBELT_FROZEN]?: string
   [SEATBELT_VERBOSE]?: string
   [SEATBELT_ROOT]?: string
+  [SEATBELT_LOCK_TIMEOUT]?: string
+  [SEATBELT_STORAGE]?: string
+  [SEATBELT_DRY_RUN]?: string
+  [SEATBELT_FROZEN_OUTPUT]?: string
+  [SEATBELT_ALLOWED_SEVERITY]?: string
+  [SEATBELT_MESSAGE_SUFFIX]?: string
+  [SEATBELT_LOCALE]?: string
 }
 
 export const SeatbeltEnv = {
@@ -473,6 +808,148 @@ export const SeatbeltEnv = {
     }
     return Boolean(value)
   },
+
+  readStorageEnvVar(value: string | undefined): SeatbeltStorage | undefined {
+    if (value === undefined || value === "") {
+      return undefined
+    }
+    const lower = value.toLowerCase()
+    if (!SEATBELT_STORAGES.includes(lower as SeatbeltStorage)) {
+      throw new Error(
+        `${SEATBELT_STORAGE} must be one of ${SEATBELT_STORAGES.join(", ")}, got \`${value}\``,
+      )
+    }
+    return lower as SeatbeltStorage
+  },
+
+  readAllowedSeverityEnvVar(
+    value: string | undefined,
+  ): SeatbeltAllowedSeverity | undefined {
+    if (value === undefined || value === "") {
+      return undefined
+    }
+    const lower = value.toLowerCase()
+    if (
+      !SEATBELT_ALLOWED_SEVERITIES.includes(lower as SeatbeltAllowedSeverity)
+    ) {
+      throw new Error(
+        `${SEATBELT_ALLOWED_SEVERITY} must be one of ${SEATBELT_ALLOWED_SEVERITIES.join(", ")}, got \`${value}\``,
+      )
+    }
+    return lower as SeatbeltAllowedSeverity
+  },
+
+  readLocaleEnvVar(value: string | undefined): SeatbeltLocale | undefined {
+    if (value === undefined || value === "") {
+      return undefined
+    }
+    // Accept full locales like `de_DE.UTF-8` or `de-AT`.
+    const language = value.toLowerCase().split(/[-_.]/)[0]
+    if (!(language in SEATBELT_MESSAGE_LOCALES)) {
+      throw new Error(
+        `${SEATBELT_LOCALE} must be one of ${Object.keys(SEATBELT_MESSAGE_LOCALES).join(", ")}, got \`${value}\``,
+      )
+    }
+    return language as SeatbeltLocale
+  },
+
+  readNumberEnvVar(
+    name: string,
+    value: string | undefined,
+  ): number | undefined {
+    if (value === undefined || value === "") {
+      return undefined
+    }
+
+    const number = Number(value)
+    if (!Number.isFinite(number) || number < 0) {
+      throw new Error(`${name} must be a non-negative number, got \`${value}\``)
+    }
+    return number
+  },
+
+  /**
+   * Inverse of {@link SeatbeltConfig.fromEnvOverrides}: encode `config` as
+   * environment variables for a child process. Only defined values are
+   * included. Function-valued `verbose` can't be passed through the
+   * environment, so it becomes `1`.
+   */
+  fromConfig(config: SeatbeltConfig & { pwd?: string }): SeatbeltEnv {
+    const env: SeatbeltEnv = {}
+    if (config.pwd !== undefined) {
+      env[SEATBELT_PWD] = config.pwd
+    }
+    if (config.seatbeltFile !== undefined) {
+      env[SEATBELT_FILE] = config.seatbeltFile
+    }
+    if (config.keepRules !== undefined) {
+      env[SEATBELT_KEEP] = SeatbeltEnv.formatRuleSetEnvVar(config.keepRules)
+    }
+    if (config.allowIncreaseRules !== undefined) {
+      env[SEATBELT_INCREASE] = SeatbeltEnv.formatRuleSetEnvVar(
+        config.allowIncreaseRules,
+      )
+    }
+    if (config.frozen !== undefined) {
+      env[SEATBELT_FROZEN] = SeatbeltEnv.formatBooleanEnvVar(config.frozen)
+    }
+    if (config.disable !== undefined) {
+      env[SEATBELT_DISABLE] = SeatbeltEnv.formatBooleanEnvVar(config.disable)
+    }
+    if (config.threadsafe !== undefined) {
+      env[SEATBELT_THREADSAFE] = SeatbeltEnv.formatBooleanEnvVar(
+        config.threadsafe,
+      )
+    }
+    if (config.fingerprints !== undefined) {
+      env[SEATBELT_FINGERPRINTS] = SeatbeltEnv.formatBooleanEnvVar(
+        config.fingerprints,
+      )
+    }
+    if (config.frozenOutput !== undefined) {
+      env[SEATBELT_FROZEN_OUTPUT] = config.frozenOutput
+    }
+    if (config.dryRun !== undefined) {
+      env[SEATBELT_DRY_RUN] = SeatbeltEnv.formatBooleanEnvVar(config.dryRun)
+    }
+    if (config.verbose !== undefined) {
+      env[SEATBELT_VERBOSE] = SeatbeltEnv.formatBooleanEnvVar(
+        Boolean(config.verbose),
+      )
+    }
+    if (config.root !== undefined) {
+      env[SEATBELT_ROOT] = config.root
+    }
+    if (config.lockTimeout !== undefined) {
+      env[SEATBELT_LOCK_TIMEOUT] = String(config.lockTimeout)
+    }
+    if (config.storage !== undefined) {
+      env[SEATBELT_STORAGE] = config.storage
+    }
+    if (config.allowedSeverity !== undefined) {
+      env[SEATBELT_ALLOWED_SEVERITY] = config.allowedSeverity
+    }
+    if (config.messageSuffix !== undefined) {
+      env[SEATBELT_MESSAGE_SUFFIX] = SeatbeltEnv.formatBooleanEnvVar(
+        config.messageSuffix,
+      )
+    }
+    if (config.locale !== undefined) {
+      env[SEATBELT_LOCALE] = config.locale
+    }
+    return env
+  },
+
+  formatRuleSetEnvVar(ruleSet: RuleId[] | "all"): string {
+    if (ruleSet === "all") {
+      return "ALL"
+    }
+    return ruleSet.join(" ")
+  },
+
+  formatBooleanEnvVar(value: boolean): string {
+    return value ? "1" : "0"
+  },
 } as const
 
 /** Environment variables we may consider that don't override explicitly set config values. */
@@ -488,6 +965,16 @@ export const logStderr = (...message: unknown[]) =>
   // eslint-disable-next-line no-console
   console.error(`[${name}]:`, ...message)
 
+const seatbeltFileSearchCache = new Map<string, string | null>()
+
+/**
+ * Forget the seatbelt files found so far. Long-lived processes like editors
+ * call this before each run so they find seatbelt files created since.
+ */
+export function clearSeatbeltFileSearchCache() {
+  seatbeltFileSearchCache.clear()
+}
+
 export const SeatbeltArgs = {
   fromConfig(config: SeatbeltConfig & { pwd?: string }): SeatbeltArgs {
     const cwd = config.pwd ?? process.cwd()
@@ -497,6 +984,7 @@ export const SeatbeltArgs = {
       config.root ?? findRepoRoot(seatbeltFile) ?? path.dirname(seatbeltFile)
     return {
       seatbeltFile,
+      seatbeltFiles: config.seatbeltFiles ?? {},
       root,
       keepRules:
         typeof config.keepRules === "string"
@@ -507,11 +995,37 @@ export const SeatbeltArgs = {
           ? config.allowIncreaseRules
           : new Set(config.allowIncreaseRules ?? []),
       frozen: config.frozen ?? false,
+      // Empty when disabled.
+      frozenOutput: config.frozenOutput
+        ? path.resolve(cwd, config.frozenOutput)
+        : "",
       disable: config.disable ?? false,
       threadsafe: config.threadsafe ?? false,
+      fingerprints: config.fingerprints ?? false,
+      dryRun: config.dryRun ?? false,
       verbose: config.verbose ?? false,
+      lockTimeout: config.lockTimeout ?? DEFAULT_LOCK_TIMEOUT_MS,
+      storage: config.storage ?? SeatbeltArgs.inferStorage(seatbeltFile),
+      allowedSeverity: config.allowedSeverity ?? "warn",
+      messageSuffix: config.messageSuffix ?? true,
+      locale: SeatbeltArgs.validateLocale(config.locale ?? DEFAULT_LOCALE),
+      messages: SeatbeltArgs.validateMessages(config.messages ?? {}),
     }
   },
+  validateLocale(locale: SeatbeltLocale): SeatbeltLocale {
+    if (!Object.hasOwn(SEATBELT_MESSAGE_LOCALES, locale)) {
+      throw new Error(
+        `Seatbelt config locale must be one of ${Object.keys(SEATBELT_MESSAGE_LOCALES).join(", ")}, got \`${locale}\``,
+      )
+    }
+    return locale
+  },
+  validateMessages(
+    messages: SeatbeltMessageTemplates,
+  ): SeatbeltMessageTemplates {
+    SeatbeltMessageTemplates.validate(messages)
+    return messages
+  },
   getLogger(args: SeatbeltArgs): (...message: unknown[]) => void {
     if (typeof args.verbose === "function") {
       return args.verbose
@@ -535,9 +1049,30 @@ export const SeatbeltArgs = {
       }
     }
   },
-  findSeatbeltFile(cwd: string): string {
-    // TODO: go up to parent dir w/ .git?
-    return `${cwd}/${SEATBELT_FILE_NAME}`
+  /**
+   * Find the nearest existing seatbelt file in `fromDir` or its ancestors, up
+   * to the repository root. Defaults to one in `cwd` if none exists.
+   */
+  findSeatbeltFile(cwd: string, fromDir: string = cwd): string {
+    let found = seatbeltFileSearchCache.get(fromDir)
+    if (found === undefined) {
+      found = findNearestFile(fromDir, SEATBELT_FILE_NAME) ?? null
+      seatbeltFileSearchCache.set(fromDir, found)
+    }
+    return found ?? `${cwd}/${SEATBELT_FILE_NAME}`
+  },
+  /** The storage implied by the extension of `seatbeltFile`. */
+  inferStorage(seatbeltFile: string): SeatbeltStorage {
+    switch (path.extname(seatbeltFile).toLowerCase()) {
+      case ".json":
+        return "json"
+      case ".sqlite":
+      case ".sqlite3":
+      case ".db":
+        return "sqlite"
+      default:
+        return "tsv"
+    }
   },
 }
 
@@ -558,6 +1093,13 @@ export function formatFilename(filename: string) {
   return relative ? relative : filename
 }
 
+/** Quote `arg` for a POSIX shell if needed. */
+export function formatShellArg(arg: string) {
+  return /^[\w@%+=:,./-]+$/.test(arg)
+    ? arg
+    : `'${arg.replaceAll("'", `'\\''`)}'`
+}
+
 export function formatRuleId(ruleId: RuleId | null) {
   if (ruleId === null) {
     return `unknown rule`
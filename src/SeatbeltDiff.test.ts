@@ -0,0 +1,49 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import { SeatbeltDiff } from "./SeatbeltDiff"
+import { SeatbeltFile } from "./SeatbeltFile"
+
+describe("SeatbeltDiff", () => {
+  test("lists increased, decreased, added and removed entries", () => {
+    const before = SeatbeltFile.parse(
+      "/test/eslint.seatbelt.tsv",
+      [
+        `"a.ts"\t"no-console"\t2\n`,
+        `"a.ts"\t"no-var"\t3\n`,
+        `"b.ts"\t"no-var"\t1\n`,
+        `"c.ts"\t"no-var"\t1\n`,
+      ].join(""),
+    )
+    const after = SeatbeltFile.parse(
+      "/test/eslint.seatbelt.tsv",
+      [
+        `"a.ts"\t"no-console"\t2\n`,
+        `"a.ts"\t"no-var"\t1\n`,
+        `"b.ts"\t"no-var"\t4\n`,
+        `"d.ts"\t"eqeqeq"\t1\n`,
+      ].join(""),
+    )
+    const diff = SeatbeltDiff.fromFiles(before, after)
+    assert.deepStrictEqual(
+      [diff.increased, diff.decreased, diff.removed],
+      [2, 1, 1],
+    )
+    assert.strictEqual(
+      SeatbeltDiff.format(diff, "eslint.seatbelt.tsv"),
+      [
+        `--- eslint.seatbelt.tsv`,
+        `+++ eslint.seatbelt.tsv`,
+        `@@ a.ts @@`,
+        `-"a.ts"\t"no-var"\t3`,
+        `+"a.ts"\t"no-var"\t1`,
+        `@@ b.ts @@`,
+        `-"b.ts"\t"no-var"\t1`,
+        `+"b.ts"\t"no-var"\t4`,
+        `@@ c.ts @@`,
+        `-"c.ts"\t"no-var"\t1`,
+        `@@ d.ts @@`,
+        `+"d.ts"\t"eqeqeq"\t1`,
+      ].join("\n"),
+    )
+  })
+})
@@ -0,0 +1,104 @@
+import { RuleId, SourceFileName } from "./SeatbeltFile"
+import type { SeatbeltStore } from "./SeatbeltStore"
+
+/** A change to the max errors of one entry. */
+export interface SeatbeltDiffEntry {
+  /**
+   * Filename relative to the seatbelt file as stored in the file. May also be
+   * an aggregate pattern or `"."` for rule caps.
+   */
+  filename: SourceFileName
+  ruleId: RuleId
+  /** Undefined if the entry was added. */
+  before: number | undefined
+  /** Undefined if the entry was removed. */
+  after: number | undefined
+}
+
+export interface SeatbeltDiff {
+  seatbeltFile: string
+  /** Sorted by filename, then rule. */
+  entries: SeatbeltDiffEntry[]
+  increased: number
+  decreased: number
+  removed: number
+}
+
+export const SeatbeltDiff = {
+  /** Changes in max errors from `before` to `after`. */
+  fromFiles(before: SeatbeltStore, after: SeatbeltStore): SeatbeltDiff {
+    const beforeData = before.toJSON().data
+    const afterData = after.toJSON().data
+    const filenames = new Set([
+      ...Object.keys(beforeData),
+      ...Object.keys(afterData),
+    ])
+    const diff: SeatbeltDiff = {
+      seatbeltFile: after.filename,
+      entries: [],
+      increased: 0,
+      decreased: 0,
+      removed: 0,
+    }
+    for (const filename of Array.from(filenames).sort(compare)) {
+      const beforeRules = beforeData[filename] ?? {}
+      const afterRules = afterData[filename] ?? {}
+      const ruleIds = new Set([
+        ...Object.keys(beforeRules),
+        ...Object.keys(afterRules),
+      ])
+      for (const ruleId of Array.from(ruleIds).sort(compare)) {
+        const entry = {
+          filename,
+          ruleId,
+          before: beforeRules[ruleId],
+          after: afterRules[ruleId],
+        }
+        if (entry.before === entry.after) {
+          continue
+        }
+        if (entry.after === undefined) {
+          diff.removed++
+        } else if ((entry.before ?? 0) < entry.after) {
+          diff.increased++
+        } else {
+          diff.decreased++
+        }
+        diff.entries.push(entry)
+      }
+    }
+    return diff
+  },
+
+  /**
+   * Format as a unified diff of seatbelt file lines. Only the filename, rule
+   * and max errors columns are shown.
+   */
+  format(diff: SeatbeltDiff, displayName: string = diff.seatbeltFile): string {
+    const lines = [`--- ${displayName}`, `+++ ${displayName}`]
+    let lastFilename: string | undefined
+    for (const { filename, ruleId, before, after } of diff.entries) {
+      if (filename !== lastFilename) {
+        lines.push(`@@ ${filename} @@`)
+        lastFilename = filename
+      }
+      const prefix = `${JSON.stringify(filename)}\t${JSON.stringify(ruleId)}\t`
+      if (before !== undefined) {
+        lines.push(`-${prefix}${before}`)
+      }
+      if (after !== undefined) {
+        lines.push(`+${prefix}${after}`)
+      }
+    }
+    return lines.join("\n")
+  },
+
+  /** Like `2 increased, 1 decreased, 0 removed`. */
+  formatSummary(diff: SeatbeltDiff): string {
+    return `${diff.increased} increased, ${diff.decreased} decreased, ${diff.removed} removed`
+  },
+} as const
+
+function compare(a: string, b: string) {
+  return a === b ? 0 : a < b ? -1 : 1
+}
@@ -3,7 +3,7 @@ import assert from "node:assert"
 import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
-import { SeatbeltFile } from "./SeatbeltFile"
+import { SEATBELT_FILE_FORMAT_VERSION, SeatbeltFile } from "./SeatbeltFile"
 import { SeatbeltArgs } from "./SeatbeltConfig"
 
 describe("SeatbeltFile", () => {
@@ -37,6 +37,239 @@ describe("SeatbeltFile", () => {
     assert.strictEqual(maxErrors.get("@typescript-eslint/no-unused-vars"), 3)
   })
 
+  test("parse() reads optional expiry dates", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"src/file.ts"\t"no-console"\t5\t"2024-06-30"`,
+        `"src/file.ts"\t"no-explicit-any"\t3`,
+      ].join("\n"),
+    )
+    assert.strictEqual(file.getMaxErrors("src/file.ts")?.get("no-console"), 5)
+    assert.deepStrictEqual(
+      file.getExpiresAt("src/file.ts"),
+      new Map([["no-console", "2024-06-30"]]),
+    )
+    assert.throws(
+      () =>
+        SeatbeltFile.parse(
+          "/test/file.tsv",
+          `"src/file.ts"\t"no-console"\t5\t"2024-02-30"`,
+        ),
+      /Expected a "YYYY-MM-DD" date string/,
+    )
+    assert.throws(
+      () =>
+        SeatbeltFile.parse(
+          "/test/file.tsv",
+          `"src/file.ts"\t"no-console"\t5\t"2024-13-45"`,
+        ),
+      /Expected a "YYYY-MM-DD" date string/,
+    )
+  })
+
+  test("isExpired() expires entries after their deadline day", () => {
+    const now = new Date("2024-06-30T23:00:00Z")
+    assert.strictEqual(SeatbeltFile.isExpired("2024-06-30", now), false)
+    assert.strictEqual(SeatbeltFile.isExpired("2024-06-29", now), true)
+  })
+
+  test("updateMaxErrors() keeps expiry dates of remaining entries", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"src/file.ts"\t"no-console"\t5\t"2024-06-30"`,
+        `"src/file.ts"\t"no-explicit-any"\t3\t"2024-07-31"`,
+      ].join("\n"),
+    )
+    file.updateMaxErrors(
+      "/test/src/file.ts",
+      SeatbeltArgs.fromConfig({ seatbeltFile: "/test/file.tsv" }),
+      new Map([["no-console", 2]]),
+    )
+    assert.strictEqual(
+      file.toDataString(),
+      `"src/file.ts"\t"no-console"\t2\t"2024-06-30"\n`,
+    )
+  })
+
+  test("annotations survive count updates and are exposed by toJSON()", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"src/file.ts"\t"no-console"\t5\tnull\t{"owner":"@web","ticket":"WEB-12"}`,
+        `"src/file.ts"\t"no-explicit-any"\t3\t"2024-07-31"\t{"owner":"@api"}`,
+      ].join("\n"),
+    )
+    file.updateMaxErrors(
+      "/test/src/file.ts",
+      SeatbeltArgs.fromConfig({ seatbeltFile: "/test/file.tsv" }),
+      new Map([
+        ["no-console", 4],
+        ["no-explicit-any", 3],
+      ]),
+    )
+    assert.strictEqual(
+      file.toDataString(),
+      [
+        `"src/file.ts"\t"no-console"\t4\tnull\t{"owner":"@web","ticket":"WEB-12"}\n`,
+        `"src/file.ts"\t"no-explicit-any"\t3\t"2024-07-31"\t{"owner":"@api"}\n`,
+      ].join(""),
+    )
+    assert.deepStrictEqual(file.toJSON().annotations, {
+      "src/file.ts": {
+        "no-console": { owner: "@web", ticket: "WEB-12" },
+        "no-explicit-any": { owner: "@api" },
+      },
+    })
+    assert.throws(
+      () =>
+        SeatbeltFile.parse(
+          "/test/file.tsv",
+          `"src/file.ts"\t"no-console"\t5\tnull\t{"owner":1}`,
+        ),
+      /column 5 \(annotations\)/,
+    )
+  })
+
+  test("aggregate budgets cap the sum over matching files", () => {
+    const parse = () =>
+      SeatbeltFile.parse(
+        "/test/file.tsv",
+        [
+          `"packages/ui/**"\t"no-explicit-any"\t5`,
+          `"packages/ui/a.ts"\t"no-explicit-any"\t3`,
+          `"packages/ui/b.ts"\t"no-explicit-any"\t2`,
+          `"packages/api/c.ts"\t"no-explicit-any"\t1`,
+        ].join("\n"),
+      )
+    const args = SeatbeltArgs.fromConfig({ seatbeltFile: "/test/file.tsv" })
+    const lint = (file: SeatbeltFile, filename: string, count: number) =>
+      file.updateMaxErrors(
+        `/test/${filename}`,
+        args,
+        new Map([["no-explicit-any", count]]),
+      )
+
+    const file = parse()
+    assert.deepStrictEqual(Array.from(file.filenames()), [
+      "/test/packages/ui/a.ts",
+      "/test/packages/ui/b.ts",
+      "/test/packages/api/c.ts",
+    ])
+    assert.strictEqual(
+      file.findAggregateBudget("/test/packages/api/c.ts", "no-explicit-any"),
+      undefined,
+    )
+
+    // Moving an error between matching files is allowed.
+    lint(file, "packages/ui/a.ts", 2)
+    lint(file, "packages/ui/b.ts", 3)
+    assert.deepStrictEqual(file.updateAggregateBudgets(args), [])
+    assert.strictEqual(
+      file.getMaxErrors("packages/ui/b.ts")?.get("no-explicit-any"),
+      3,
+    )
+
+    // Adding errors exceeds the budget, even when only one file was linted.
+    const exceeded = parse()
+    lint(exceeded, "packages/ui/a.ts", 4)
+    assert.deepStrictEqual(exceeded.updateAggregateBudgets(args), [
+      {
+        pattern: "packages/ui/**",
+        ruleId: "no-explicit-any",
+        maxErrors: 5,
+        errorCount: 6,
+        kind: "exceeded",
+      },
+    ])
+
+    // Fixing errors tightens the budget.
+    const fixed = parse()
+    lint(fixed, "packages/ui/a.ts", 1)
+    assert.deepStrictEqual(fixed.updateAggregateBudgets(args), [])
+    assert.strictEqual(
+      fixed.getMaxErrors("packages/ui/**")?.get("no-explicit-any"),
+      3,
+    )
+
+    // Fixing all errors removes the budget.
+    const clean = parse()
+    assert.strictEqual(clean.hasAggregateBudgets(), true)
+    lint(clean, "packages/ui/a.ts", 0)
+    lint(clean, "packages/ui/b.ts", 0)
+    assert.deepStrictEqual(clean.updateAggregateBudgets(args), [])
+    assert.strictEqual(clean.hasAggregateBudgets(), false)
+  })
+
+  test("updateRuleCaps() reports exceeded caps and lowers the rest", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"."\t"no-explicit-any"\t10`,
+        `"."\t"no-console"\t2`,
+        `"src/a.ts"\t"no-explicit-any"\t7`,
+        `"src/a.ts"\t"no-console"\t3`,
+      ].join("\n"),
+    )
+    assert.deepStrictEqual(Array.from(file.filenames()), ["/test/src/a.ts"])
+
+    const totals = new Map([
+      ["no-explicit-any", 7],
+      ["no-console", 3],
+    ])
+    const frozen = SeatbeltArgs.fromConfig({
+      seatbeltFile: "/test/file.tsv",
+      frozen: true,
+    })
+    const violations = file.updateRuleCaps(frozen, totals)
+    assert.deepStrictEqual(
+      violations.map((violation) => violation.ruleId),
+      ["no-console"],
+    )
+    assert.strictEqual(file.changed, false)
+
+    const args = SeatbeltArgs.fromConfig({ seatbeltFile: "/test/file.tsv" })
+    file.updateRuleCaps(args, totals)
+    assert.deepStrictEqual(
+      file.getRuleCaps(),
+      new Map([
+        ["no-explicit-any", 7],
+        ["no-console", 2],
+      ]),
+    )
+  })
+
+  test("updateMaxErrors() tracks fingerprints", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      `"src/file.ts"\t"no-console"\t2\n`,
+    )
+    const args = SeatbeltArgs.fromConfig({ seatbeltFile: "/test/file.tsv" })
+    const lint = (...fingerprints: string[]) =>
+      file.updateMaxErrors(
+        "/test/src/file.ts",
+        args,
+        new Map([["no-console", fingerprints.length]]),
+        new Map([["no-console", fingerprints]]),
+      )
+
+    // Count-only entries within budget are migrated.
+    lint("b", "a")
+    assert.strictEqual(
+      file.toDataString(),
+      `"src/file.ts"\t"no-console"\t2\tnull\tnull\t["a","b"]\n`,
+    )
+
+    // New fingerprints aren't added, even when the count is unchanged.
+    lint("a", "c")
+    assert.deepStrictEqual(
+      file.getFingerprints("src/file.ts"),
+      new Map([["no-console", ["a"]]]),
+    )
+    assert.strictEqual(file.getMaxErrors("src/file.ts")?.get("no-console"), 1)
+  })
+
   test("updateMaxErrors() updates error counts", () => {
     const file = SeatbeltFile.parse(
       "/test/file.tsv",
@@ -49,12 +282,23 @@ describe("SeatbeltFile", () => {
 
     const args: SeatbeltArgs = {
       seatbeltFile: "/test/sourceCode.ts",
+      seatbeltFiles: {},
+      root: "/test",
       keepRules: new Set(["@typescript-eslint/keep"]),
       allowIncreaseRules: new Set(),
       frozen: false,
+      frozenOutput: "",
       disable: false,
       threadsafe: false,
+      fingerprints: false,
+      dryRun: false,
       verbose: false,
+      lockTimeout: 0,
+      storage: "tsv",
+      allowedSeverity: "warn",
+      messageSuffix: true,
+      locale: "en",
+      messages: {},
     }
 
     const newCounts = new Map(
@@ -76,6 +320,38 @@ describe("SeatbeltFile", () => {
     assert.strictEqual(maxErrors.get("@typescript-eslint/keep"), 99)
   })
 
+  test("updateMaxErrors() leaves stored counts untouched when frozen", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [`"src/file.ts"\t"no-console"\t5`, `"src/file.ts"\t"no-var"\t2`].join(
+        "\n",
+      ),
+    )
+    const stored = file.getMaxErrors("/test/src/file.ts")
+    const frozen = SeatbeltArgs.fromConfig({
+      seatbeltFile: "/test/file.tsv",
+      frozen: true,
+    })
+
+    const changed = file.updateMaxErrors(
+      "/test/src/file.ts",
+      frozen,
+      new Map([["no-console", 3]]),
+    )
+    assert.strictEqual(changed.decreasedRulesCount, 1)
+    assert.deepStrictEqual(changed.removedRules, new Set(["no-var"]))
+    assert.strictEqual(file.changed, false)
+    // The map returned before the update isn't modified either.
+    assert.strictEqual(file.getMaxErrors("/test/src/file.ts"), stored)
+    assert.deepStrictEqual(
+      stored,
+      new Map([
+        ["no-console", 5],
+        ["no-var", 2],
+      ]),
+    )
+  })
+
   test("readSync() and writeSync() roundtrip", async () => {
     const tmpDir = await fs.promises.mkdtemp(
       path.join(os.tmpdir(), "seatbelt-test-"),
@@ -98,6 +374,32 @@ describe("SeatbeltFile", () => {
     await fs.promises.rm(tmpDir, { recursive: true })
   })
 
+  test("writeSync() replaces the file atomically and keeps its mode", async () => {
+    const tmpDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "seatbelt-test-"),
+    )
+    const filename = path.join(tmpDir, "test.tsv")
+    await fs.promises.writeFile(filename, `"src/fileA.ts"\t"no-console"\t5\n`)
+    await fs.promises.chmod(filename, 0o640)
+
+    const file = SeatbeltFile.readSync(filename)
+    file.updateMaxErrors(
+      path.join(tmpDir, "src/fileA.ts"),
+      SeatbeltArgs.fromConfig({ seatbeltFile: filename }),
+      new Map([["no-console", 2]]),
+    )
+    file.writeSync()
+
+    assert.strictEqual(
+      await fs.promises.readFile(filename, "utf8"),
+      `"src/fileA.ts"\t"no-console"\t2\n`,
+    )
+    assert.strictEqual((await fs.promises.stat(filename)).mode & 0o777, 0o640)
+    assert.deepStrictEqual(await fs.promises.readdir(tmpDir), ["test.tsv"])
+
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
   test("toJSON() and fromJSON() roundtrip", () => {
     const file = SeatbeltFile.fromJSON({
       filename: "/test/eslint.seatbelt.tsv",
@@ -130,4 +432,205 @@ describe("SeatbeltFile", () => {
     const roundtrippedFile = SeatbeltFile.fromJSON(json)
     assert.deepStrictEqual(roundtrippedFile.toJSON(), json)
   })
+
+  test("merge() resolves three-way changes", () => {
+    const parse = (...lines: string[]) =>
+      SeatbeltFile.parse("/test/file.tsv", lines.join("\n"))
+    const base = parse(
+      `"a.ts"\t"one-sided"\t5`,
+      `"a.ts"\t"both-decreased"\t5`,
+      `"a.ts"\t"increased"\t5`,
+      `"a.ts"\t"deleted-ours"\t5`,
+      `"a.ts"\t"deleted-theirs"\t5`,
+      `"a.ts"\t"dated"\t5\t"2024-01-31"`,
+    )
+    const ours = parse(
+      `"a.ts"\t"one-sided"\t5`,
+      `"a.ts"\t"both-decreased"\t3`,
+      `"a.ts"\t"increased"\t7`,
+      `"a.ts"\t"deleted-theirs"\t2`,
+      `"b.ts"\t"added"\t1`,
+      `"a.ts"\t"dated"\t5\t"2024-03-31"`,
+    )
+    const theirs = parse(
+      `"a.ts"\t"one-sided"\t4`,
+      `"a.ts"\t"both-decreased"\t2`,
+      `"a.ts"\t"increased"\t3`,
+      `"a.ts"\t"deleted-ours"\t1`,
+      `"a.ts"\t"dated"\t4\t"2024-02-29"`,
+    )
+
+    const merged = SeatbeltFile.merge("/test/file.tsv", base, ours, theirs)
+    assert.deepStrictEqual(merged.toJSON().data, {
+      "a.ts": {
+        "one-sided": 4,
+        "both-decreased": 2,
+        increased: 7,
+        dated: 4,
+      },
+      "b.ts": {
+        added: 1,
+      },
+    })
+    assert.deepStrictEqual(merged.toJSON().expiresAt, {
+      "a.ts": { dated: "2024-03-31" },
+    })
+  })
+
+  test("parse() resolves git conflict markers", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"src/file.ts"\t"no-console"\t1`,
+        `<<<<<<< HEAD`,
+        `"src/file.ts"\t"no-explicit-any"\t3`,
+        `"src/ours.ts"\t"no-explicit-any"\t1`,
+        `||||||| base`,
+        `"src/file.ts"\t"no-explicit-any"\t5`,
+        `=======`,
+        `"src/file.ts"\t"no-explicit-any"\t4`,
+        `"src/theirs.ts"\t"no-explicit-any"\t2`,
+        `>>>>>>> branch`,
+        `"src/other.ts"\t"no-console"\t1`,
+      ].join("\n"),
+    )
+    assert.strictEqual(file.changed, true)
+    assert.deepStrictEqual(file.toJSON().data, {
+      "src/file.ts": { "no-console": 1, "no-explicit-any": 3 },
+      "src/ours.ts": { "no-explicit-any": 1 },
+      "src/theirs.ts": { "no-explicit-any": 2 },
+      "src/other.ts": { "no-console": 1 },
+    })
+    assert.ok(!file.toDataString().includes("======="))
+  })
+
+  test("parse() drops conflicting entries deleted on one side", () => {
+    const file = SeatbeltFile.parse(
+      "/test/conflict-deleted.tsv",
+      [
+        `<<<<<<< HEAD`,
+        `"src/fixed.ts"\t"no-console"\t2`,
+        `"src/kept.ts"\t"no-console"\t1`,
+        `=======`,
+        `"src/kept.ts"\t"no-console"\t1`,
+        `>>>>>>> branch`,
+        `<<<<<<< HEAD`,
+        `||||||| base`,
+        `"src/gone.ts"\t"no-console"\t1`,
+        `=======`,
+        `"src/gone.ts"\t"no-console"\t1`,
+        `"src/added.ts"\t"no-console"\t3`,
+        `>>>>>>> branch`,
+      ].join("\n"),
+    )
+    assert.deepStrictEqual(file.toJSON().data, {
+      "src/kept.ts": { "no-console": 1 },
+      "src/added.ts": { "no-console": 3 },
+    })
+  })
+
+  test("parse() rejects unterminated conflict markers", () => {
+    assert.throws(
+      () =>
+        SeatbeltFile.parse(
+          "/test/file.tsv",
+          `<<<<<<< HEAD\n"src/file.ts"\t"no-console"\t1\n`,
+        ),
+      /Unterminated merge conflict starting at line 1/,
+    )
+  })
+
+  test("parse() normalizes filenames and merges duplicates", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"./src/a.ts"\t"no-console"\t5`,
+        `"src\\\\a.ts"\t"no-console"\t3`,
+        `"src/cafe\u0301.ts"\t"no-console"\t2`,
+        `"src/caf\u00e9.ts"\t"no-console"\t4`,
+        `"src/**"\t"no-console"\t20\n`,
+      ].join("\n"),
+    )
+    assert.ok(file.changed)
+    assert.deepStrictEqual(
+      file.getMaxErrors("/test/src/a.ts"),
+      new Map([["no-console", 3]]),
+    )
+    assert.strictEqual(
+      file.toDataString(),
+      [
+        `"src/**"\t"no-console"\t20\n`,
+        `"src/a.ts"\t"no-console"\t3\n`,
+        `"src/caf\u00e9.ts"\t"no-console"\t2\n`,
+      ].join(""),
+    )
+    assert.ok(
+      !SeatbeltFile.parse("/test/file.tsv", file.toDataString()).changed,
+    )
+  })
+
+  test("parse() keeps the metadata of merged duplicates", () => {
+    const file = SeatbeltFile.parse(
+      "/test/file.tsv",
+      [
+        `"./src/a.ts"\t"no-console"\t2\t"2030-01-01"\t{"owner":"ui","ticket":"UI-1"}\t["f1","f2"]`,
+        `"src/a.ts"\t"no-console"\t1\tnull\t{"owner":"platform"}`,
+        `"./src/b.ts"\t"no-console"\t1\tnull\t{"owner":"ui"}\t["f3"]`,
+        `"src/b.ts"\t"no-console"\t1\n`,
+      ].join("\n"),
+    )
+    assert.ok(file.changed)
+    assert.deepStrictEqual(
+      file.getExpiresAt("/test/src/a.ts"),
+      new Map([["no-console", "2030-01-01"]]),
+    )
+    assert.deepStrictEqual(
+      file.getAnnotations("/test/src/a.ts"),
+      new Map([["no-console", { owner: "platform", ticket: "UI-1" }]]),
+    )
+    assert.deepStrictEqual(
+      file.getAnnotations("/test/src/b.ts"),
+      new Map([["no-console", { owner: "ui" }]]),
+    )
+    assert.deepStrictEqual(
+      file.getFingerprints("/test/src/b.ts"),
+      new Map([["no-console", ["f3"]]]),
+    )
+  })
+
+  test("migrate() adds the format version and keeps comments", () => {
+    const text = `# allowed errors\n\n"src/file.ts"\t"no-console"\t1\n`
+    const file = SeatbeltFile.parse("/test/file.tsv", text)
+    assert.strictEqual(file.formatVersion, 1)
+    assert.strictEqual(file.toDataString(), text)
+
+    assert.strictEqual(file.migrate(), 1)
+    assert.ok(file.changed)
+    const migrated = file.toDataString()
+    assert.strictEqual(
+      migrated,
+      `# eslint-seatbelt-format: ${SEATBELT_FILE_FORMAT_VERSION}\n${text}`,
+    )
+
+    const reparsed = SeatbeltFile.parse("/test/file.tsv", migrated)
+    assert.strictEqual(reparsed.formatVersion, SEATBELT_FILE_FORMAT_VERSION)
+    assert.strictEqual(reparsed.comments, "# allowed errors")
+    assert.strictEqual(reparsed.toDataString(), migrated)
+  })
+
+  test("parse() rejects newer format versions", () => {
+    assert.throws(
+      () =>
+        SeatbeltFile.parse(
+          "/test/file.tsv",
+          `# eslint-seatbelt-format: ${SEATBELT_FILE_FORMAT_VERSION + 1}\n`,
+        ),
+      /written by a newer version of eslint-seatbelt/,
+    )
+    assert.throws(
+      () =>
+        SeatbeltFile.parse("/test/file.tsv", `# eslint-seatbelt-format: two\n`),
+      /positive integer/,
+    )
+  })
 })
@@ -1,15 +1,16 @@
-import * as os from "node:os"
 import * as fs from "node:fs"
-import path, * as nodePath from "node:path"
-import {
-  formatFilename,
-  formatRuleId,
-  SEATBELT_FROZEN,
-  SEATBELT_KEEP,
-  SeatbeltArgs,
-} from "./SeatbeltConfig"
-import { name } from "../package.json"
+import * as nodePath from "node:path"
+import { formatFilename, formatRuleId, logStderr } from "./SeatbeltConfig"
+import { name, version } from "../package.json"
 import { appendErrorContext, isErrno } from "./errorHanding"
+import { normalizeSeatbeltPath } from "./paths"
+import {
+  entriesFromJSON,
+  SeatbeltEntries,
+  SeatbeltStoreBase,
+} from "./SeatbeltStoreBase"
+
+export { RULE_CAPS_FILENAME } from "./SeatbeltStoreBase"
 
 export type SourceFileName = string
 export type RuleId = string
@@ -19,24 +20,79 @@ interface SeatbeltFileLine {
   filename: SourceFileName
   ruleId: RuleId
   maxErrors: number
+  /** Deadline in YYYY-MM-DD format, after which the errors are no longer allowed. */
+  expiresAt?: string
+  annotations?: SeatbeltAnnotations
+  /** Sorted fingerprints of the allowed errors, see `fingerprints` config. */
+  fingerprints?: string[]
+}
+
+/**
+ * Free-form notes attached to a seatbelt entry, stored as a JSON object in
+ * the entry's 5th column. Kept when the entry's count changes.
+ */
+export interface SeatbeltAnnotations {
+  /** Team or person responsible for fixing these errors. */
+  owner?: string
+  /** Issue tracking the cleanup. */
+  ticket?: string
+  [key: string]: string | undefined
+}
+
+/**
+ * An entry whose filename is a glob pattern. Its max errors cap the sum of
+ * errors for the rule across all matching source files.
+ */
+export interface SeatbeltAggregateBudget {
+  /**
+   * Glob pattern relative to the seatbelt file, like `packages/ui/**`, or
+   * {@link RULE_CAPS_FILENAME} for rule caps.
+   */
+  pattern: string
+  ruleId: RuleId
+  maxErrors: number
+}
+
+export interface SeatbeltAggregateViolation extends SeatbeltAggregateBudget {
+  /** Sum of errors across matching source files. */
+  errorCount: number
+  /**
+   * `exceeded`: more errors than allowed.
+   * `frozen`: fewer errors than allowed, but the seatbelt file is frozen.
+   */
+  kind: "exceeded" | "frozen"
 }
 
 export type SeatbeltFileJson = {
   filename: SourceFileName
   data: Record<SourceFileName, Record<RuleId, number>>
+  expiresAt?: Record<SourceFileName, Record<RuleId, string>>
+  annotations?: Record<SourceFileName, Record<RuleId, SeatbeltAnnotations>>
+  fingerprints?: Record<SourceFileName, Record<RuleId, string[]>>
 }
 
 function encodeLine(line: SeatbeltFileLine): string {
-  const { filename, ruleId, maxErrors } = line
-  return `${JSON.stringify(filename)}\t${JSON.stringify(ruleId)}\t${maxErrors}\n`
+  const { filename, ruleId, maxErrors, expiresAt, annotations, fingerprints } =
+    line
+  let optionalColumns = ""
+  if (fingerprints && fingerprints.length > 0) {
+    const annotationsOrNull =
+      annotations && Object.keys(annotations).length > 0 ? annotations : null
+    optionalColumns = `\t${JSON.stringify(expiresAt ?? null)}\t${JSON.stringify(annotationsOrNull)}\t${JSON.stringify(fingerprints)}`
+  } else if (annotations && Object.keys(annotations).length > 0) {
+    optionalColumns = `\t${JSON.stringify(expiresAt ?? null)}\t${JSON.stringify(annotations)}`
+  } else if (expiresAt) {
+    optionalColumns = `\t${JSON.stringify(expiresAt)}`
+  }
+  return `${JSON.stringify(filename)}\t${JSON.stringify(ruleId)}\t${maxErrors}${optionalColumns}\n`
 }
 
 function decodeLine(line: string, index: number): SeatbeltFileLine {
   try {
     const lineParts = line.split("\t")
-    if (lineParts.length !== 3) {
+    if (lineParts.length < 3 || lineParts.length > 6) {
       throw new Error(
-        `Expected 3 tab-separated JSON strings, instead have ${lineParts.length}`,
+        `Expected 3 to 6 tab-separated JSON values, instead have ${lineParts.length}`,
       )
     }
     let filename: string
@@ -63,11 +119,66 @@ function decodeLine(line: string, index: number): SeatbeltFileLine {
       throw e
     }
 
+    let expiresAt: string | undefined
+    if (lineParts.length >= 4) {
+      try {
+        expiresAt = JSON.parse(lineParts[3]) ?? undefined
+        if (
+          expiresAt !== undefined &&
+          (typeof expiresAt !== "string" ||
+            !SeatbeltFile.isValidExpiryDate(expiresAt))
+        ) {
+          throw new Error(
+            `Expected a "YYYY-MM-DD" date string or null, instead have ${lineParts[3].trim()}`,
+          )
+        }
+      } catch (e) {
+        appendErrorContext(e, "at tab-separated column 4 (expiresAt)")
+        throw e
+      }
+    }
+
+    let annotations: SeatbeltAnnotations | undefined
+    if (lineParts.length >= 5) {
+      try {
+        annotations = JSON.parse(lineParts[4]) ?? undefined
+        if (annotations !== undefined && !isAnnotations(annotations)) {
+          throw new Error(
+            `Expected a JSON object with string values or null, instead have ${lineParts[4].trim()}`,
+          )
+        }
+      } catch (e) {
+        appendErrorContext(e, "at tab-separated column 5 (annotations)")
+        throw e
+      }
+    }
+
+    let fingerprints: string[] | undefined
+    if (lineParts.length === 6) {
+      try {
+        fingerprints = JSON.parse(lineParts[5])
+        if (
+          !Array.isArray(fingerprints) ||
+          !fingerprints.every((fingerprint) => typeof fingerprint === "string")
+        ) {
+          throw new Error(
+            `Expected a JSON array of strings, instead have ${lineParts[5].trim()}`,
+          )
+        }
+      } catch (e) {
+        appendErrorContext(e, "at tab-separated column 6 (fingerprints)")
+        throw e
+      }
+    }
+
     return {
       encoded: line,
       filename,
       ruleId,
       maxErrors,
+      expiresAt,
+      annotations,
+      fingerprints,
     }
   } catch (e) {
     appendErrorContext(e, `at line ${index + 1}: \`${line.trim()}\``)
@@ -75,12 +186,237 @@ function decodeLine(line: string, index: number): SeatbeltFileLine {
   }
 }
 
+function isAnnotations(value: unknown): value is SeatbeltAnnotations {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  )
+}
+
 interface SeatbeltStateFileData {
-  maxErrors?: Map<RuleId, number>
+  /** Entries built in memory by {@link SeatbeltFile.merge} or `fromJSON`. */
+  entries?: SeatbeltEntries
+  /** Parsed into entries when the file is first looked up. */
   lines: SeatbeltFileLine[]
 }
 
 const COMMENT_LINE_REGEX = /^\s*#/
+const FORMAT_VERSION_REGEX = /^\s*#\s*eslint-seatbelt-format:\s*(.*?)\s*$/
+
+/**
+ * The format version written by this version of the plugin. Files without a
+ * version line are version 1. Version 2 adds the version line.
+ */
+export const SEATBELT_FILE_FORMAT_VERSION = 2
+
+function formatVersionLine(version: number) {
+  return `# eslint-seatbelt-format: ${version}`
+}
+
+function parseFormatVersion(versionLines: string[]): number {
+  let formatVersion = 1
+  versionLines.forEach((line) => {
+    const value = FORMAT_VERSION_REGEX.exec(line)?.[1] ?? ""
+    const lineVersion = Number(value)
+    if (!/^\d+$/.test(value) || lineVersion < 1) {
+      throw new Error(
+        `Expected format version to be a positive integer, got \`${value}\``,
+      )
+    }
+    formatVersion = Math.max(formatVersion, lineVersion)
+  })
+  if (formatVersion > SEATBELT_FILE_FORMAT_VERSION) {
+    throw new Error(
+      `Seatbelt file format version ${formatVersion} was written by a newer version of ${name}. This version (${version}) supports format versions up to ${SEATBELT_FILE_FORMAT_VERSION}. Upgrade ${name} to read it.`,
+    )
+  }
+  return formatVersion
+}
+const CONFLICT_START_REGEX = /^<{7}(?:\s|$)/
+const CONFLICT_BASE_REGEX = /^\|{7}(?:\s|$)/
+const CONFLICT_SEPARATOR_REGEX = /^={7}\s*$/
+const CONFLICT_END_REGEX = /^>{7}(?:\s|$)/
+
+interface ResolvedConflict {
+  filename: SourceFileName
+  ruleId: RuleId
+  ours: number
+  theirs: number
+}
+
+/**
+ * Replace each git conflict hunk with the union of both sides' lines. Entries
+ * with different counts keep the lower count, which is always safe for a
+ * ratchet. An entry missing on one side counts as 0 and is dropped, unless the
+ * diff3 base section shows it was added on the other side.
+ */
+function resolveConflictMarkers(split: string[]): {
+  lines: string[]
+  conflicts: ResolvedConflict[]
+} {
+  const lines: string[] = []
+  const conflicts: ResolvedConflict[] = []
+  let section: "ours" | "base" | "theirs" | undefined
+  let hunkStart = 0
+  let ours: Array<[line: string, index: number]> = []
+  let base: Array<[line: string, index: number]> | undefined
+  let theirs: Array<[line: string, index: number]> = []
+
+  split.forEach((line, index) => {
+    if (section === undefined) {
+      if (CONFLICT_START_REGEX.test(line)) {
+        section = "ours"
+        hunkStart = index
+        ours = []
+        base = undefined
+        theirs = []
+      } else {
+        lines.push(line)
+      }
+      return
+    }
+
+    if (section === "ours" && CONFLICT_BASE_REGEX.test(line)) {
+      section = "base"
+      base = []
+    } else if (section !== "theirs" && CONFLICT_SEPARATOR_REGEX.test(line)) {
+      section = "theirs"
+    } else if (section === "theirs" && CONFLICT_END_REGEX.test(line)) {
+      lines.push(...resolveConflictHunk(ours, base, theirs, conflicts))
+      section = undefined
+    } else if (section === "ours") {
+      ours.push([line, index])
+    } else if (section === "base") {
+      base?.push([line, index])
+    } else if (section === "theirs") {
+      theirs.push([line, index])
+    }
+  })
+
+  if (section !== undefined) {
+    throw new Error(
+      `Unterminated merge conflict starting at line ${hunkStart + 1}: \`${split[hunkStart].trim()}\``,
+    )
+  }
+
+  return { lines, conflicts }
+}
+
+function resolveConflictHunk(
+  ours: Array<[line: string, index: number]>,
+  base: Array<[line: string, index: number]> | undefined,
+  theirs: Array<[line: string, index: number]>,
+  conflicts: ResolvedConflict[],
+): string[] {
+  const comments: string[] = []
+  const decodeSide = (
+    side: Array<[line: string, index: number]>,
+    keepComments = true,
+  ) => {
+    const entries = new Map<string, SeatbeltFileLine>()
+    side.forEach(([line, index]) => {
+      if (line.trim() === "") {
+        return
+      }
+      if (COMMENT_LINE_REGEX.test(line)) {
+        if (keepComments && !comments.includes(line)) {
+          comments.push(line)
+        }
+        return
+      }
+      const decoded = decodeLine(line, index)
+      entries.set(JSON.stringify([decoded.filename, decoded.ruleId]), decoded)
+    })
+    return entries
+  }
+
+  const entries = decodeSide(ours)
+  const baseEntries = base && decodeSide(base, false)
+  const theirsEntries = decodeSide(theirs)
+  // A side without the entry deleted it, so it has 0 errors. Without a base
+  // section, additions can't be told apart from deletions and are dropped too.
+  const dropMissing = (
+    line: SeatbeltFileLine,
+    key: string,
+    side: "ours" | "theirs",
+  ) => {
+    if (baseEntries && !baseEntries.has(key)) {
+      return false
+    }
+    conflicts.push({
+      filename: line.filename,
+      ruleId: line.ruleId,
+      ours: side === "ours" ? line.maxErrors : 0,
+      theirs: side === "theirs" ? line.maxErrors : 0,
+    })
+    return true
+  }
+  entries.forEach((oursLine, key) => {
+    if (!theirsEntries.has(key) && dropMissing(oursLine, key, "ours")) {
+      entries.delete(key)
+    }
+  })
+  theirsEntries.forEach((theirsLine, key) => {
+    const oursLine = entries.get(key)
+    if (!oursLine) {
+      if (!dropMissing(theirsLine, key, "theirs")) {
+        entries.set(key, theirsLine)
+      }
+      return
+    }
+    if (oursLine.maxErrors !== theirsLine.maxErrors) {
+      conflicts.push({
+        filename: oursLine.filename,
+        ruleId: oursLine.ruleId,
+        ours: oursLine.maxErrors,
+        theirs: theirsLine.maxErrors,
+      })
+      if (theirsLine.maxErrors < oursLine.maxErrors) {
+        entries.set(key, {
+          ...theirsLine,
+          expiresAt: theirsLine.expiresAt ?? oursLine.expiresAt,
+          annotations: theirsLine.annotations ?? oursLine.annotations,
+        })
+      }
+    }
+  })
+
+  return [
+    ...comments.map((line) => (line.endsWith("\n") ? line : `${line}\n`)),
+    ...Array.from(entries.values(), (entry) => encodeLine(entry)),
+  ]
+}
+
+/**
+ * Seatbelt files whose resolved conflicts were logged. Threadsafe runs and
+ * editors re-read the file for every linted file, so log only once.
+ */
+const loggedConflictFiles = new Set<string>()
+
+function logResolvedConflicts(
+  seatbeltFile: SeatbeltFile,
+  conflicts: ResolvedConflict[],
+) {
+  if (loggedConflictFiles.has(seatbeltFile.filename)) {
+    return
+  }
+  loggedConflictFiles.add(seatbeltFile.filename)
+  const count =
+    conflicts.length === 1
+      ? "1 merge conflict"
+      : `${conflicts.length} merge conflicts`
+  logStderr(
+    [
+      `${formatFilename(seatbeltFile.filename)}: resolved ${count} by keeping the lower max errors:`,
+      ...conflicts.map(
+        ({ filename, ruleId, ours, theirs }) =>
+          `  ${formatFilename(seatbeltFile.toAbsolutePath(filename))}: ${formatRuleId(ruleId)}: ${ours} / ${theirs} -> ${Math.min(ours, theirs)}`,
+      ),
+    ].join("\n"),
+  )
+}
 
 const DEFAULT_FILE_HEADER = `
 # ${name} temporarily allowed errors
@@ -89,11 +425,21 @@ const DEFAULT_FILE_HEADER = `
 
 /**
  * The state file is a Map<filename, Map<ruleId, allowedErrors>>.
+ * Entries may have an optional expiry date in a 4th column, and optional
+ * {@link SeatbeltAnnotations} in a 5th column, and error fingerprints in a 6th
+ * column. A `# eslint-seatbelt-format: N` comment records the
+ * {@link SEATBELT_FILE_FORMAT_VERSION format version}. Filenames containing `*` are
+ * {@link SeatbeltAggregateBudget}s, and {@link RULE_CAPS_FILENAME} holds
+ * repository-wide caps.
  * It is stored in "tab separated json" format. This format is chosen over JSON
  * or YAML because each line is independent, which makes resolving merge
  * conflicts much easier than in a syntactically hierarchical format.
+ *
+ * The whole file is read into memory, and lines are parsed when their source
+ * file is first looked up. Other storage formats are separate `SeatbeltStore`
+ * implementations.
  */
-export class SeatbeltFile {
+export class SeatbeltFile extends SeatbeltStoreBase {
   static readSync(filename: string): SeatbeltFile {
     const text = fs.readFileSync(filename, "utf8")
     try {
@@ -119,253 +465,464 @@ export class SeatbeltFile {
     }
   }
 
+  /**
+   * Parse seatbelt file text. Git conflict markers are tolerated: conflicting
+   * entries are resolved by taking the lower max errors, and the returned file
+   * is marked as changed so the clean version is written on the next flush.
+   */
   static parse(filename: string, text: string): SeatbeltFile {
     const data = new Map<SourceFileName, SeatbeltStateFileData>()
-    const split = text.split(/(?<=\n)/)
-    const lines = split
+    const { lines: split, conflicts } = resolveConflictMarkers(
+      text.split(/(?<=\n)/),
+    )
+    const { lines, normalized } = normalizeLines(
+      split
+        .filter(
+          (line) =>
+            line !== "" && line !== "\n" && !COMMENT_LINE_REGEX.test(line),
+        )
+        .map(decodeLine),
+    )
+    const formatVersion = parseFormatVersion(
+      split.filter((line) => FORMAT_VERSION_REGEX.test(line)),
+    )
+    const comments = split
       .filter(
         (line) =>
-          line !== "" && line !== "\n" && !COMMENT_LINE_REGEX.test(line),
+          COMMENT_LINE_REGEX.test(line) && !FORMAT_VERSION_REGEX.test(line),
       )
-      .map(decodeLine)
-    const comments = split
-      .filter((line) => COMMENT_LINE_REGEX.test(line))
       .join("")
     lines.forEach((line) => {
       let fileState = data.get(line.filename)
       if (!fileState) {
-        fileState = { maxErrors: undefined, lines: [] }
+        fileState = { lines: [] }
         data.set(line.filename, fileState)
       }
       fileState.lines.push(line)
     })
-    return new SeatbeltFile(filename, data, comments.trim())
+    const seatbeltFile = new SeatbeltFile(
+      filename,
+      data,
+      comments.trim(),
+      formatVersion,
+    )
+    if (conflicts.length > 0) {
+      logResolvedConflicts(seatbeltFile, conflicts)
+      seatbeltFile.changed = true
+    }
+    if (normalized) {
+      seatbeltFile.changed = true
+    }
+    return seatbeltFile
   }
 
   static fromJSON(json: SeatbeltFileJson): SeatbeltFile {
     const data = new Map(
-      Object.entries(json.data).map(([filename, maxErrors]) => [
+      Object.keys(json.data).map((filename) => [
         filename,
-        { maxErrors: new Map(Object.entries(maxErrors)), lines: [] },
+        { entries: entriesFromJSON(json, filename), lines: [] },
       ]),
     )
     return new SeatbeltFile(json.filename, data)
   }
 
-  public changed = false
-  private readonly dirname: string
+  /**
+   * Three-way merge of seatbelt files for use as a git merge driver.
+   * Entries are compared by their stored `(filename, ruleId)` key:
+   *
+   * - Changes made on only one side are accepted.
+   * - Entries deleted on either side are dropped.
+   * - When both sides decreased the count, the lower count wins.
+   * - Other conflicting changes keep the higher count. The next ESLint run
+   *   will tighten it to the actual error count.
+   *
+   * Expiry dates merge the same way, except conflicting changes keep the
+   * later date. Conflicting annotations are combined, preferring `ours`.
+   * Conflicting fingerprints are dropped, turning the entry back into a
+   * count until the next ESLint run in fingerprint mode.
+   *
+   * The result keeps the comments of `ours` and writes to `filename`.
+   */
+  static merge(
+    filename: string,
+    base: SeatbeltFile,
+    ours: SeatbeltFile,
+    theirs: SeatbeltFile,
+  ): SeatbeltFile {
+    const baseJson = base.toJSON()
+    const oursJson = ours.toJSON()
+    const theirsJson = theirs.toJSON()
+    const baseData = baseJson.data
+    const oursData = oursJson.data
+    const theirsData = theirsJson.data
+    const data = new Map<SourceFileName, SeatbeltStateFileData>()
+    const sourceFiles = new Set([
+      ...Object.keys(baseData),
+      ...Object.keys(oursData),
+      ...Object.keys(theirsData),
+    ])
+    for (const sourceFile of sourceFiles) {
+      const ruleIds = new Set([
+        ...Object.keys(baseData[sourceFile] ?? {}),
+        ...Object.keys(oursData[sourceFile] ?? {}),
+        ...Object.keys(theirsData[sourceFile] ?? {}),
+      ])
+      const maxErrors = new Map<RuleId, number>()
+      const expiresAt = new Map<RuleId, string>()
+      const annotations = new Map<RuleId, SeatbeltAnnotations>()
+      const fingerprints = new Map<RuleId, string[]>()
+      for (const ruleId of ruleIds) {
+        const merged = mergeMaxErrors(
+          baseData[sourceFile]?.[ruleId],
+          oursData[sourceFile]?.[ruleId],
+          theirsData[sourceFile]?.[ruleId],
+        )
+        if (merged === undefined) {
+          continue
+        }
+        maxErrors.set(ruleId, merged)
+        const mergedExpiresAt = mergeExpiresAt(
+          baseJson.expiresAt?.[sourceFile]?.[ruleId],
+          oursJson.expiresAt?.[sourceFile]?.[ruleId],
+          theirsJson.expiresAt?.[sourceFile]?.[ruleId],
+        )
+        if (mergedExpiresAt !== undefined) {
+          expiresAt.set(ruleId, mergedExpiresAt)
+        }
+        const mergedAnnotations = mergeAnnotations(
+          baseJson.annotations?.[sourceFile]?.[ruleId],
+          oursJson.annotations?.[sourceFile]?.[ruleId],
+          theirsJson.annotations?.[sourceFile]?.[ruleId],
+        )
+        if (mergedAnnotations !== undefined) {
+          annotations.set(ruleId, mergedAnnotations)
+        }
+        const mergedFingerprints = mergeFingerprints(
+          baseJson.fingerprints?.[sourceFile]?.[ruleId],
+          oursJson.fingerprints?.[sourceFile]?.[ruleId],
+          theirsJson.fingerprints?.[sourceFile]?.[ruleId],
+        )
+        if (mergedFingerprints?.length === merged) {
+          fingerprints.set(ruleId, mergedFingerprints)
+        }
+      }
+      if (maxErrors.size > 0) {
+        data.set(sourceFile, {
+          entries: { maxErrors, expiresAt, annotations, fingerprints },
+          lines: [],
+        })
+      }
+    }
+    return new SeatbeltFile(
+      filename,
+      data,
+      ours.comments,
+      Math.max(ours.formatVersion, theirs.formatVersion),
+    )
+  }
 
   constructor(
-    public readonly filename: string,
-    protected data: Map<SourceFileName, SeatbeltStateFileData>,
+    filename: string,
+    private data: Map<SourceFileName, SeatbeltStateFileData>,
     public readonly comments: string = "",
+    /**
+     * Kept when the file is rewritten, so upgrading the plugin doesn't
+     * change existing files. See {@link migrate}.
+     */
+    public formatVersion: number = SEATBELT_FILE_FORMAT_VERSION,
   ) {
-    this.filename = path.resolve(this.filename)
-    this.dirname = path.dirname(this.filename)
-  }
-
-  *filenames(): IterableIterator<SourceFileName> {
-    for (const filename of this.data.keys()) {
-      yield this.toAbsolutePath(filename)
-    }
+    super(filename)
   }
 
-  getMaxErrors(
-    filename: SourceFileName,
-  ): ReadonlyMap<RuleId, number> | undefined {
-    const fileState = this.data.get(this.toRelativePath(filename))
+  protected readEntries(key: SourceFileName): SeatbeltEntries | undefined {
+    const fileState = this.data.get(key)
     if (!fileState) {
       return undefined
     }
-    fileState.maxErrors ??= parseMaxErrors(fileState.lines)
-    return fileState.maxErrors
-  }
-
-  removeFile(filename: SourceFileName, args: SeatbeltArgs) {
-    const relativeFilename = this.toRelativePath(filename)
-    if (!this.data.has(relativeFilename)) {
-      return false
-    }
-
-    SeatbeltArgs.verboseLog(args, () =>
-      args.frozen
-        ? `${formatFilename(filename)}: ${SEATBELT_FROZEN}: didn't remove max errors`
-        : `${formatFilename(filename)}: remove max errors`,
+    return (
+      fileState.entries ?? {
+        maxErrors: parseMaxErrors(fileState.lines),
+        expiresAt: parseExpiresAt(fileState.lines),
+        annotations: parseAnnotations(fileState.lines),
+        fingerprints: parseFingerprints(fileState.lines),
+      }
     )
-
-    if (args.frozen) {
-      return false
-    }
-
-    this.data.delete(relativeFilename)
-    this.changed = true
-    return true
   }
 
-  updateMaxErrors(
-    filename: SourceFileName,
-    args: SeatbeltArgs,
-    ruleToErrorCount: ReadonlyMap<RuleId, number>,
-  ) {
-    const removedRules = new Set<RuleId>()
-    let increasedRulesCount = 0
-    let decreasedRulesCount = 0
-    this.getMaxErrors(filename)
-    const relativeFilename = this.toRelativePath(filename)
-    const maxErrors =
-      this.data.get(relativeFilename)?.maxErrors ?? new Map<RuleId, number>()
-
-    ruleToErrorCount.forEach((errorCount, ruleId) => {
-      const maxErrorCount = maxErrors.get(ruleId) ?? 0
-      if (errorCount === maxErrorCount) {
-        return
-      }
-
-      if (
-        errorCount < maxErrorCount ||
-        SeatbeltArgs.ruleSetHas(args.allowIncreaseRules, ruleId)
-      ) {
-        SeatbeltArgs.verboseLog(args, () =>
-          args.frozen
-            ? `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_FROZEN}: didn't update max errors ${maxErrorCount} -> ${errorCount}`
-            : `${formatFilename(filename)}: ${formatRuleId(ruleId)}: update max errors ${maxErrorCount} -> ${errorCount}`,
-        )
-        maxErrors.set(ruleId, errorCount)
-        if (errorCount > maxErrorCount) {
-          increasedRulesCount++
-        } else {
-          decreasedRulesCount++
-        }
-      }
-    })
-
-    if (args.verbose || args.keepRules !== "all") {
-      maxErrors.forEach((maxErrorCount, ruleId) => {
-        const shouldRemove =
-          maxErrorCount === 0 || !ruleToErrorCount.has(ruleId)
-
-        if (!shouldRemove) {
-          return
-        }
-
-        if (SeatbeltArgs.ruleSetHas(args.keepRules, ruleId)) {
-          SeatbeltArgs.verboseLog(
-            args,
-            () =>
-              `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_KEEP}: didn't update max errors ${maxErrorCount} -> ${0}`,
-          )
-          return
-        }
-
-        SeatbeltArgs.verboseLog(args, () =>
-          args.frozen
-            ? `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_FROZEN}: didn't update max errors ${maxErrorCount} -> ${0}`
-            : `${formatFilename(filename)}: ${formatRuleId(ruleId)}: update max errors ${maxErrorCount} -> ${0}`,
-        )
-
-        maxErrors.delete(ruleId)
-        removedRules.add(ruleId)
-      })
-    }
-
-    const changed =
-      increasedRulesCount > 0 ||
-      decreasedRulesCount > 0 ||
-      removedRules.size > 0
-    if (changed && !args.frozen) {
-      const file = this.data.get(relativeFilename)
-      if (file) {
-        file.maxErrors = maxErrors
-      } else {
-        this.data.set(relativeFilename, {
-          maxErrors,
-          lines: [],
-        })
-      }
-      this.changed = true
-    }
-
-    return { removedRules, increasedRulesCount, decreasedRulesCount }
+  protected readKeys(): Iterable<SourceFileName> {
+    return this.data.keys()
   }
 
   toDataString(): string {
     const lines: string[] = []
-    this.data.forEach((fileState, filename) => {
-      if (fileState.maxErrors) {
-        // Serialize maxErrors map structure if it exists, since it may have changes.
-        fileState.lines = []
-        fileState.maxErrors.forEach((maxErrorCount, ruleId) => {
-          fileState.lines.push({ filename, ruleId, maxErrors: maxErrorCount })
+    for (const filename of this.keys()) {
+      const fileState = this.data.get(filename)
+      if (fileState && !fileState.entries && !this.hasLoadedEntries(filename)) {
+        // Reuse the encoded lines of entries that were never looked up.
+        fileState.lines.forEach((line) => {
+          lines.push((line.encoded ??= encodeLine(line)))
         })
-        fileState.lines.sort((a, b) =>
-          a.ruleId === b.ruleId ? 0 : a.ruleId < b.ruleId ? -1 : 1,
-        )
+        continue
       }
-      fileState.lines.forEach((line) => {
-        const encoded = (line.encoded ??= encodeLine(line))
-        lines.push(encoded)
+      const entries = this.getEntries(filename)
+      entries?.maxErrors.forEach((maxErrorCount, ruleId) => {
+        lines.push(
+          encodeLine({
+            filename,
+            ruleId,
+            maxErrors: maxErrorCount,
+            expiresAt: entries.expiresAt.get(ruleId),
+            annotations: entries.annotations.get(ruleId),
+            fingerprints: entries.fingerprints.get(ruleId)?.slice(),
+          }),
+        )
       })
-    })
+    }
     lines.sort()
-    if (this.comments) {
-      return this.comments + "\n\n" + lines.join("")
+    const header = [
+      this.formatVersion > 1 ? formatVersionLine(this.formatVersion) : "",
+      this.comments,
+    ]
+      .filter(Boolean)
+      .join("\n")
+    if (header) {
+      return header + "\n\n" + lines.join("")
     } else {
       return lines.join("")
     }
   }
 
-  readSync() {
-    const nextStateFile = SeatbeltFile.openSync(this.filename)
-    if (nextStateFile) {
-      this.data = nextStateFile.data
-      this.changed = false
-      return true
+  /**
+   * Upgrade to {@link SEATBELT_FILE_FORMAT_VERSION}. Entries and comments are
+   * kept. Returns the previous format version.
+   */
+  migrate(): number {
+    const previousVersion = this.formatVersion
+    if (previousVersion < SEATBELT_FILE_FORMAT_VERSION) {
+      this.formatVersion = SEATBELT_FILE_FORMAT_VERSION
+      this.changed = true
     }
-    return false
+    return previousVersion
   }
 
-  flushChanges() {
-    if (this.changed) {
-      this.writeSync()
-      this.changed = false
-      return { updated: true }
-    }
-    return { updated: false }
+  protected reloadSync(): boolean {
+    const next = SeatbeltFile.openSync(this.filename)
+    this.data = next.data
+    this.formatVersion = next.formatVersion
+    return next.changed
   }
 
-  writeSync() {
+  /**
+   * Write the file atomically: readers in other processes see either the old
+   * or the new contents, never a partial write.
+   */
+  writeSync(filename: string = this.filename) {
     const dataString = this.toDataString()
-    const dir = nodePath.dirname(this.filename)
+    const dir = nodePath.dirname(filename)
     fs.mkdirSync(dir, { recursive: true })
-    fs.writeFileSync(this.filename, dataString, "utf8")
+    writeFileAtomicSync(filename, dataString)
   }
+}
 
-  toJSON(): SeatbeltFileJson {
-    const data = Object.fromEntries(
-      Array.from(this.data.keys()).map((filename) => {
-        const maxErrors = this.getMaxErrors(filename)
-        if (!maxErrors) {
-          throw new Error(`${name} bug: expected errors for existing key`)
-        }
-        return [filename, Object.fromEntries(maxErrors)]
-      }),
-    )
-    return { filename: this.filename, data }
+let tempFileCounter = 0
+
+/**
+ * Write to a temp file in the same directory, fsync it, then rename it over
+ * `filename`. Rename within a directory is atomic, so a crash mid-write leaves
+ * the original file intact. The original file mode is preserved.
+ */
+export function writeFileAtomicSync(filename: string, data: string) {
+  let mode: number | undefined
+  try {
+    // Write through symlinks instead of replacing them.
+    filename = fs.realpathSync(filename)
+    mode = fs.statSync(filename).mode & 0o7777
+  } catch (e) {
+    if (!isErrno(e, "ENOENT")) {
+      throw e
+    }
   }
 
-  toRelativePath(filename: string) {
-    if (!nodePath.isAbsolute(filename)) {
-      return filename
+  const tempFilename = `${filename}.${process.pid}.${tempFileCounter++}.tmp`
+  let fd: number | undefined
+  try {
+    fd = fs.openSync(tempFilename, "wx", mode)
+    fs.writeFileSync(fd, data, "utf8")
+    if (mode !== undefined) {
+      // openSync's mode is masked by the umask.
+      fs.fchmodSync(fd, mode)
     }
-    return nodePath.relative(this.dirname, filename)
+    fs.fsyncSync(fd)
+    fs.closeSync(fd)
+    fd = undefined
+    fs.renameSync(tempFilename, filename)
+  } catch (e) {
+    if (fd !== undefined) {
+      fs.closeSync(fd)
+    }
+    fs.rmSync(tempFilename, { force: true })
+    appendErrorContext(e, `while writing \`${filename}\``)
+    throw e
   }
+}
 
-  toAbsolutePath(filename: string) {
-    if (nodePath.isAbsolute(filename)) {
-      return filename
+/**
+ * Normalize the filenames of parsed lines, and merge lines for the same file
+ * and rule by keeping the one with the lowest max errors. The expiry date,
+ * annotations and fingerprints of the dropped line fill in the ones the kept
+ * line is missing, and annotations are combined, preferring the kept line.
+ */
+function normalizeLines(lines: SeatbeltFileLine[]): {
+  lines: SeatbeltFileLine[]
+  normalized: boolean
+} {
+  let normalized = false
+  const lineByKey = new Map<string, SeatbeltFileLine>()
+  lines.forEach((line) => {
+    if (SeatbeltFile.isSourceFilename(line.filename)) {
+      const filename = normalizeSeatbeltPath(line.filename)
+      if (filename !== line.filename) {
+        line = { ...line, filename, encoded: undefined }
+        normalized = true
+      }
+    }
+    const key = JSON.stringify([line.filename, line.ruleId])
+    const existing = lineByKey.get(key)
+    if (existing) {
+      normalized = true
+      line =
+        existing.maxErrors <= line.maxErrors
+          ? mergeDuplicateLines(existing, line)
+          : mergeDuplicateLines(line, existing)
     }
-    return nodePath.resolve(this.dirname, filename)
+    lineByKey.set(key, line)
+  })
+  return { lines: Array.from(lineByKey.values()), normalized }
+}
+
+function mergeDuplicateLines(
+  kept: SeatbeltFileLine,
+  dropped: SeatbeltFileLine,
+): SeatbeltFileLine {
+  const annotations =
+    kept.annotations || dropped.annotations
+      ? { ...dropped.annotations, ...kept.annotations }
+      : undefined
+  return {
+    ...kept,
+    encoded: undefined,
+    expiresAt: kept.expiresAt ?? dropped.expiresAt,
+    annotations,
+    fingerprints: kept.fingerprints ?? dropped.fingerprints,
+  }
+}
+
+function mergeMaxErrors(
+  base: number | undefined,
+  ours: number | undefined,
+  theirs: number | undefined,
+): number | undefined {
+  if (ours === theirs) {
+    return ours
+  }
+  if (ours === base) {
+    return theirs
+  }
+  if (theirs === base) {
+    return ours
+  }
+  if (ours === undefined || theirs === undefined) {
+    return undefined
   }
+  if (base !== undefined && ours < base && theirs < base) {
+    return Math.min(ours, theirs)
+  }
+  return Math.max(ours, theirs)
+}
+
+function mergeExpiresAt(
+  base: string | undefined,
+  ours: string | undefined,
+  theirs: string | undefined,
+): string | undefined {
+  if (ours === theirs) {
+    return ours
+  }
+  if (ours === base) {
+    return theirs
+  }
+  if (theirs === base) {
+    return ours
+  }
+  if (ours === undefined || theirs === undefined) {
+    return ours ?? theirs
+  }
+  return ours > theirs ? ours : theirs
+}
+
+function mergeAnnotations(
+  base: SeatbeltAnnotations | undefined,
+  ours: SeatbeltAnnotations | undefined,
+  theirs: SeatbeltAnnotations | undefined,
+): SeatbeltAnnotations | undefined {
+  const key = (annotations: SeatbeltAnnotations | undefined) =>
+    JSON.stringify(annotations)
+  if (key(ours) === key(theirs) || key(theirs) === key(base)) {
+    return ours
+  }
+  if (key(ours) === key(base)) {
+    return theirs
+  }
+  return { ...theirs, ...ours }
+}
+
+function mergeFingerprints(
+  base: string[] | undefined,
+  ours: string[] | undefined,
+  theirs: string[] | undefined,
+): string[] | undefined {
+  const key = (fingerprints: string[] | undefined) =>
+    JSON.stringify(fingerprints)
+  if (key(ours) === key(theirs) || key(theirs) === key(base)) {
+    return ours
+  }
+  if (key(ours) === key(base)) {
+    return theirs
+  }
+  return undefined
+}
+
+function parseFingerprints(lines: SeatbeltFileLine[]): Map<RuleId, string[]> {
+  const fingerprints = new Map<RuleId, string[]>()
+  lines.forEach((line) => {
+    // Ignore fingerprints that don't match a hand-edited count.
+    if (line.fingerprints && line.fingerprints.length === line.maxErrors) {
+      fingerprints.set(line.ruleId, line.fingerprints)
+    }
+  })
+  return fingerprints
+}
+
+function parseAnnotations(
+  lines: SeatbeltFileLine[],
+): Map<RuleId, SeatbeltAnnotations> {
+  const annotations = new Map<RuleId, SeatbeltAnnotations>()
+  lines.forEach((line) => {
+    if (line.annotations) {
+      annotations.set(line.ruleId, line.annotations)
+    }
+  })
+  return annotations
+}
+
+function parseExpiresAt(lines: SeatbeltFileLine[]): Map<RuleId, string> {
+  const expiresAt = new Map<RuleId, string>()
+  lines.forEach((line) => {
+    if (line.expiresAt) {
+      expiresAt.set(line.ruleId, line.expiresAt)
+    }
+  })
+  return expiresAt
 }
 
 function parseMaxErrors(lines: SeatbeltFileLine[]): Map<RuleId, number> {
@@ -0,0 +1,140 @@
+import * as fs from "node:fs"
+import * as nodePath from "node:path"
+import {
+  SEATBELT_FILE_FORMAT_VERSION,
+  SeatbeltFileJson,
+  SourceFileName,
+  writeFileAtomicSync,
+} from "./SeatbeltFile"
+import {
+  entriesFromJSON,
+  SeatbeltEntries,
+  SeatbeltStoreBase,
+} from "./SeatbeltStoreBase"
+import { appendErrorContext, isErrno } from "./errorHanding"
+
+type SeatbeltJsonFileData = Omit<SeatbeltFileJson, "filename">
+
+/**
+ * Seatbelt file stored as a single JSON object, in the shape of
+ * {@link SeatbeltFileJson} without `filename`:
+ *
+ * ```json
+ * {
+ *   "data": {
+ *     "src/legacy.ts": { "@typescript-eslint/no-explicit-any": 12 }
+ *   },
+ *   "expiresAt": {
+ *     "src/legacy.ts": { "@typescript-eslint/no-explicit-any": "2025-03-31" }
+ *   }
+ * }
+ * ```
+ *
+ * Keys are sorted so rewrites produce small diffs.
+ */
+export class SeatbeltJsonFile extends SeatbeltStoreBase {
+  static readSync(filename: string): SeatbeltJsonFile {
+    const text = fs.readFileSync(filename, "utf8")
+    try {
+      return SeatbeltJsonFile.parse(filename, text)
+    } catch (e) {
+      appendErrorContext(e, `in seatbelt file \`${filename}\``)
+      throw e
+    }
+  }
+
+  static openSync(filename: string): SeatbeltJsonFile {
+    try {
+      return SeatbeltJsonFile.readSync(filename)
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        return new SeatbeltJsonFile(filename, { data: {} })
+      }
+      throw e
+    }
+  }
+
+  static parse(filename: string, text: string): SeatbeltJsonFile {
+    const json: unknown = JSON.parse(text)
+    if (!isSeatbeltJsonFileData(json)) {
+      throw new Error(
+        `Expected a JSON object with a "data" object mapping filenames to rule IDs to max errors`,
+      )
+    }
+    return new SeatbeltJsonFile(filename, json)
+  }
+
+  constructor(
+    filename: string,
+    private json: SeatbeltJsonFileData,
+  ) {
+    super(filename)
+  }
+
+  protected readEntries(key: SourceFileName): SeatbeltEntries | undefined {
+    return Object.hasOwn(this.json.data, key)
+      ? entriesFromJSON(this.json, key)
+      : undefined
+  }
+
+  protected readKeys(): Iterable<SourceFileName> {
+    return Object.keys(this.json.data)
+  }
+
+  toDataString(): string {
+    const { data, expiresAt, annotations, fingerprints } = this.toJSON()
+    const json: SeatbeltJsonFileData = {
+      data,
+      expiresAt,
+      annotations,
+      fingerprints,
+    }
+    return JSON.stringify(sortKeys(json), null, 2) + "\n"
+  }
+
+  /** JSON files have no format version, so this returns the current one. */
+  migrate(): number {
+    return SEATBELT_FILE_FORMAT_VERSION
+  }
+
+  protected reloadSync(): boolean {
+    this.json = SeatbeltJsonFile.openSync(this.filename).json
+    return false
+  }
+
+  /** Write the file atomically. */
+  writeSync(filename: string = this.filename) {
+    fs.mkdirSync(nodePath.dirname(filename), { recursive: true })
+    writeFileAtomicSync(filename, this.toDataString())
+  }
+}
+
+function isSeatbeltJsonFileData(json: unknown): json is SeatbeltJsonFileData {
+  if (typeof json !== "object" || json === null || !("data" in json)) {
+    return false
+  }
+  const { data } = json
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    Object.values(data).every(
+      (maxErrors) =>
+        typeof maxErrors === "object" &&
+        maxErrors !== null &&
+        Object.values(maxErrors).every(
+          (count) => typeof count === "number" && count >= 0,
+        ),
+    )
+  )
+}
+
+function sortKeys(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, child]) => [key, sortKeys(child)]),
+  )
+}
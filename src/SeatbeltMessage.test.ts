@@ -0,0 +1,72 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import {
+  SeatbeltMessageTemplates,
+  SeatbeltMessageValues,
+} from "./SeatbeltMessage"
+import { SEATBELT_MESSAGE_LOCALES } from "./messageLocales"
+
+const values: SeatbeltMessageValues = {
+  errorCount: 1,
+  maxErrorCount: 3,
+  excessCount: 0,
+  fixedCount: 2,
+  ruleId: "no-var",
+  filename: "src/a.ts",
+  seatbeltFile: "eslint.seatbelt.tsv",
+  fixCommand: "eslint src/a.ts",
+}
+
+describe("SeatbeltMessageTemplates", () => {
+  test("format replaces placeholders and picks plural forms", () => {
+    assert.strictEqual(
+      SeatbeltMessageTemplates.format(
+        "{errorCount|# error|# errors} of {ruleId}, {maxErrorCount|# error|# errors} allowed. See https://wiki.example.com/{ruleId}",
+        values,
+      ),
+      "1 error of no-var, 3 errors allowed. See https://wiki.example.com/no-var",
+    )
+  })
+
+  test("validate rejects unknown statuses and placeholders", () => {
+    assert.throws(
+      () =>
+        SeatbeltMessageTemplates.validate({ "at-limit": "{errorCont} errors" }),
+      /Unknown placeholder `\{errorCont\}` in seatbelt config messages.at-limit/,
+    )
+    assert.throws(
+      () => SeatbeltMessageTemplates.validate({ "at-limit": "{pattern}" }),
+      /Unknown placeholder `\{pattern\}`/,
+    )
+    assert.throws(
+      () =>
+        SeatbeltMessageTemplates.validate({
+          "at-limit": "{ruleId|rule|rules}",
+        }),
+      /isn't a number/,
+    )
+    assert.throws(
+      () =>
+        SeatbeltMessageTemplates.validate({
+          "at-limit": "{errorCount|# error}",
+        }),
+      /must have a singular and plural form/,
+    )
+    assert.throws(
+      () =>
+        SeatbeltMessageTemplates.validate({
+          "at-limt": "",
+        } as SeatbeltMessageTemplates),
+      /Unknown status `at-limt`/,
+    )
+    SeatbeltMessageTemplates.validate({
+      "aggregate-budget": "{errorCount} counted towards {pattern}",
+    })
+  })
+
+  test("bundled locales are valid", () => {
+    for (const templates of Object.values(SEATBELT_MESSAGE_LOCALES)) {
+      SeatbeltMessageTemplates.validate(templates)
+    }
+  })
+})
@@ -0,0 +1,210 @@
+import type { Linter } from "eslint"
+
+/**
+ * How the errors of a rule in a file compare to the seatbelt file:
+ *
+ * - `at-limit`: as many errors as allowed.
+ * - `under-limit`: fewer errors than allowed. The max is lowered to match.
+ * - `over-limit`: more errors than allowed.
+ * - `increase-allowed`: more errors than allowed, but the rule may increase.
+ * - `frozen-mismatch`: fewer errors than allowed, but the seatbelt file is frozen.
+ * - `aggregate-budget`: more errors than allowed for the file, counted towards
+ *   an aggregate budget instead.
+ * - `new-fingerprint`: the error doesn't match a stored fingerprint.
+ * - `expired`: the allowed errors passed their deadline.
+ */
+export type SeatbeltMessageStatus =
+  | "at-limit"
+  | "under-limit"
+  | "over-limit"
+  | "increase-allowed"
+  | "frozen-mismatch"
+  | "aggregate-budget"
+  | "new-fingerprint"
+  | "expired"
+
+const SEATBELT_MESSAGE_STATUSES: readonly SeatbeltMessageStatus[] = [
+  "at-limit",
+  "under-limit",
+  "over-limit",
+  "increase-allowed",
+  "frozen-mismatch",
+  "aggregate-budget",
+  "new-fingerprint",
+  "expired",
+]
+
+/**
+ * Machine-readable seatbelt state of a lint message, stored in
+ * `message.seatbelt`. It's plain JSON, so it's also included in the output of
+ * ESLint's `json` formatter.
+ */
+export interface SeatbeltMessageData {
+  status: SeatbeltMessageStatus
+  /** Errors of the rule in the linted file. */
+  errorCount: number
+  /**
+   * Errors of the rule allowed in the linted file. For `aggregate-budget`, the
+   * errors allowed in all files matching `pattern`.
+   */
+  maxErrorCount: number
+  /** Absolute path of the seatbelt file. */
+  seatbeltFile: string
+  /** Pattern of the aggregate budget, for `aggregate-budget`. */
+  pattern?: string
+  /** The deadline that passed, for `expired`. */
+  expiresAt?: string
+}
+
+export interface SeatbeltLintMessage extends Linter.LintMessage {
+  seatbelt?: SeatbeltMessageData
+}
+
+export const SeatbeltMessageData = {
+  /** The seatbelt state of `message`, if seatbelt changed it. */
+  fromMessage(
+    message: Linter.LintMessage | SeatbeltLintMessage,
+  ): SeatbeltMessageData | undefined {
+    return "seatbelt" in message ? message.seatbelt : undefined
+  },
+
+  /**
+   * True if the seatbelt file allows the error, so it's reported according to
+   * `allowedSeverity`.
+   */
+  isAllowed(data: SeatbeltMessageData): boolean {
+    switch (data.status) {
+      case "at-limit":
+      case "under-limit":
+      case "increase-allowed":
+      case "aggregate-budget":
+        return true
+      default:
+        return false
+    }
+  },
+} as const
+
+/**
+ * Templates for the explanation appended to lint messages, by status.
+ *
+ * Placeholders like `{errorCount}` are replaced with their value. Number
+ * placeholders can pick a singular and plural form like
+ * `{errorCount|# error|# errors}`, where `#` is the number.
+ */
+export type SeatbeltMessageTemplates = {
+  [S in SeatbeltMessageStatus]?: string
+}
+
+/** Values for the placeholders of {@link SeatbeltMessageTemplates}. */
+export interface SeatbeltMessageValues {
+  /** Errors of the rule in the linted file. */
+  errorCount: number
+  /** Errors of the rule allowed in the linted file. */
+  maxErrorCount: number
+  /** Errors over `maxErrorCount`, or 0. */
+  excessCount: number
+  /** Errors under `maxErrorCount`, or 0. */
+  fixedCount: number
+  ruleId: string
+  /** The linted file, relative to the working directory. */
+  filename: string
+  /** The seatbelt file, relative to the working directory. */
+  seatbeltFile: string
+  /** Command that updates the seatbelt file for the linted file. */
+  fixCommand: string
+  /** Pattern of the aggregate budget. Only for `aggregate-budget`. */
+  pattern?: string
+  /** The deadline that passed. Only for `expired`. */
+  expiresAt?: string
+}
+
+const PLACEHOLDER_REGEX = /\{(\w+)(?:\|([^{}]*))?\}/g
+
+const PLACEHOLDERS: readonly (keyof SeatbeltMessageValues)[] = [
+  "errorCount",
+  "maxErrorCount",
+  "excessCount",
+  "fixedCount",
+  "ruleId",
+  "filename",
+  "seatbeltFile",
+  "fixCommand",
+]
+
+const STATUS_PLACEHOLDERS: {
+  [S in SeatbeltMessageStatus]?: readonly (keyof SeatbeltMessageValues)[]
+} = {
+  "aggregate-budget": ["pattern"],
+  expired: ["expiresAt"],
+}
+
+const validatedTemplates = new WeakSet<SeatbeltMessageTemplates>()
+
+export const SeatbeltMessageTemplates = {
+  /**
+   * Throw if `templates` has an unknown status, an unknown placeholder, or a
+   * singular and plural form for a placeholder that isn't a number.
+   */
+  validate(templates: SeatbeltMessageTemplates) {
+    if (validatedTemplates.has(templates)) {
+      return
+    }
+    for (const [status, template] of Object.entries(templates)) {
+      if (
+        !SEATBELT_MESSAGE_STATUSES.includes(status as SeatbeltMessageStatus)
+      ) {
+        throw new Error(
+          `Unknown status \`${status}\` in seatbelt config messages. Expected one of ${SEATBELT_MESSAGE_STATUSES.join(", ")}`,
+        )
+      }
+      if (typeof template !== "string") {
+        throw new Error(
+          `Seatbelt config messages.${status} must be a string, got ${typeof template}`,
+        )
+      }
+      const allowed = [
+        ...PLACEHOLDERS,
+        ...(STATUS_PLACEHOLDERS[status as SeatbeltMessageStatus] ?? []),
+      ]
+      for (const [placeholder, key, forms] of template.matchAll(
+        PLACEHOLDER_REGEX,
+      )) {
+        if (!allowed.includes(key as keyof SeatbeltMessageValues)) {
+          throw new Error(
+            `Unknown placeholder \`${placeholder}\` in seatbelt config messages.${status}. Expected one of ${allowed.map((key) => `{${key}}`).join(", ")}`,
+          )
+        }
+        if (forms !== undefined && !key.endsWith("Count")) {
+          throw new Error(
+            `Placeholder \`${placeholder}\` in seatbelt config messages.${status} has singular and plural forms, but {${key}} isn't a number`,
+          )
+        }
+        if (forms !== undefined && forms.split("|").length !== 2) {
+          throw new Error(
+            `Placeholder \`${placeholder}\` in seatbelt config messages.${status} must have a singular and plural form, like {${key}|# error|# errors}`,
+          )
+        }
+      }
+    }
+    validatedTemplates.add(templates)
+  },
+
+  /** Replace the placeholders in `template` with `values`. */
+  format(template: string, values: SeatbeltMessageValues): string {
+    return template.replace(
+      PLACEHOLDER_REGEX,
+      (placeholder, key: string, forms: string | undefined) => {
+        const value = values[key as keyof SeatbeltMessageValues]
+        if (value === undefined) {
+          return placeholder
+        }
+        if (forms === undefined) {
+          return String(value)
+        }
+        const [singular, plural] = forms.split("|")
+        return (value === 1 ? singular : plural).replaceAll("#", String(value))
+      },
+    )
+  },
+} as const
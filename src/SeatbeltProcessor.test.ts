@@ -0,0 +1,427 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import { spawn } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { ESLint } from "eslint"
+import { FileLock } from "./FileLock"
+import { SeatbeltFile } from "./SeatbeltFile"
+import type { SeatbeltLintMessage } from "./SeatbeltMessage"
+
+const eslintBin = path.join(
+  path.dirname(require.resolve("eslint/package.json")),
+  "bin/eslint.js",
+)
+
+describe("SeatbeltProcessor", () => {
+  let tmpDir: string
+  let seatbeltFilename: string
+  let writesLog: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-processor-")),
+    )
+    seatbeltFilename = path.join(tmpDir, "eslint.seatbelt.tsv")
+    writesLog = path.join(tmpDir, "writes.log")
+    // Logs each write of the seatbelt file, or fails it with FAIL_WRITES.
+    fs.writeFileSync(
+      path.join(tmpDir, "count-writes.cjs"),
+      [
+        `const fs = require("node:fs")`,
+        `const renameSync = fs.renameSync`,
+        `fs.renameSync = (from, to) => {`,
+        `  if (to === process.env.SEATBELT_FILE) {`,
+        `    if (process.env.FAIL_WRITES) throw new Error("disk full")`,
+        `    fs.appendFileSync(${JSON.stringify(writesLog)}, "write\\n")`,
+        `  }`,
+        `  return renameSync(from, to)`,
+        `}`,
+      ].join("\n"),
+    )
+    fs.writeFileSync(
+      path.join(tmpDir, "eslint.config.cjs"),
+      [
+        `const seatbelt = require(${JSON.stringify(path.join(__dirname, "index.ts"))}).default`,
+        `module.exports = [seatbelt.configs.enable, { rules: { "no-var": "error" } }]`,
+      ].join("\n"),
+    )
+    fs.writeFileSync(path.join(tmpDir, "a.js"), "var a = 1\n")
+    fs.writeFileSync(path.join(tmpDir, "b.js"), "var b = 1\n")
+    fs.writeFileSync(
+      seatbeltFilename,
+      [`"a.js"\t"no-var"\t2\n`, `"b.js"\t"no-var"\t2\n`].join(""),
+    )
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  /** Run Node.js in `tmpDir`, counting seatbelt file writes. */
+  function runNode(nodeArgs: string[], env: NodeJS.ProcessEnv = {}) {
+    const parentEnv = { ...process.env }
+    // Would make the plugin think it runs in an editor instead of the CLI.
+    delete parentEnv.VSCODE_IPC_HOOK
+    const child = spawn(
+      process.execPath,
+      [
+        "--require",
+        require.resolve("tsx/cjs"),
+        "--require",
+        path.join(tmpDir, "count-writes.cjs"),
+        ...nodeArgs,
+      ],
+      {
+        cwd: tmpDir,
+        env: {
+          ...parentEnv,
+          SEATBELT_FILE: seatbeltFilename,
+          SEATBELT_FROZEN: "0",
+          ...env,
+        },
+      },
+    )
+    let output = ""
+    let stdout = ""
+    child.stdout.on("data", (data) => {
+      output += data
+      stdout += data
+    })
+    child.stderr.on("data", (data) => (output += data))
+    return new Promise<{ code: number | null; output: string; stdout: string }>(
+      (resolve, reject) => {
+        child.on("error", reject)
+        child.on("close", (code) => resolve({ code, output, stdout }))
+      },
+    )
+  }
+
+  function runEslint(filenames: string[], env: NodeJS.ProcessEnv = {}) {
+    return runNode([eslintBin, ...filenames], env)
+  }
+
+  /** Run the ESLint CLI with the JSON formatter and return its messages by file. */
+  async function lintMessages(
+    filenames: string[],
+    env: NodeJS.ProcessEnv = {},
+  ) {
+    const { code, output, stdout } = await runEslint(
+      ["--format", "json", ...filenames],
+      env,
+    )
+    const results: ESLint.LintResult[] = JSON.parse(stdout)
+    const messages: Record<string, SeatbeltLintMessage[]> = Object.fromEntries(
+      results.map((result) => [
+        path.basename(result.filePath),
+        result.messages,
+      ]),
+    )
+    return { code, output, messages }
+  }
+
+  function countWrites() {
+    return fs.existsSync(writesLog)
+      ? fs.readFileSync(writesLog, "utf8").split("\n").filter(Boolean).length
+      : 0
+  }
+
+  test("the ESLint CLI writes once at exit", async () => {
+    const { code, output } = await runEslint(["a.js", "b.js"])
+    assert.strictEqual(code, 0, output)
+    assert.strictEqual(countWrites(), 1)
+    assert.deepStrictEqual(
+      SeatbeltFile.readSync(seatbeltFilename).toJSON().data,
+      {
+        "a.js": { "no-var": 1 },
+        "b.js": { "no-var": 1 },
+      },
+    )
+  })
+
+  test("other runners write after each file", async () => {
+    // Print the number of writes before the process exits.
+    const script = `
+      const { ESLint } = require(${JSON.stringify(require.resolve("eslint"))})
+      new ESLint().lintFiles(["a.js", "b.js"]).then(() => {
+        const log = require("node:fs").readFileSync(${JSON.stringify(writesLog)}, "utf8")
+        console.log(log.split("\\n").filter(Boolean).length)
+      })
+    `
+    const { code, output } = await runNode(["-e", script])
+    assert.strictEqual(code, 0, output)
+    assert.strictEqual(output.trim(), "2")
+    assert.strictEqual(countWrites(), 2)
+  })
+
+  test("failed writes at exit set exit code 2", async () => {
+    const { code, output } = await runEslint(["a.js"], { FAIL_WRITES: "1" })
+    assert.strictEqual(code, 2, output)
+    assert.match(output, /failed to update seatbelt file: Error: disk full/)
+    assert.strictEqual(
+      SeatbeltFile.readSync(seatbeltFilename)
+        .getMaxErrors("a.js")
+        ?.get("no-var"),
+      2,
+    )
+  })
+
+  test("threadsafe processes keep each other's updates", async () => {
+    const env = { SEATBELT_THREADSAFE: "1" }
+    const results = await Promise.all([
+      runEslint(["a.js"], env),
+      runEslint(["b.js"], env),
+    ])
+    results.forEach(({ code, output }) => assert.strictEqual(code, 0, output))
+
+    const seatbeltFile = SeatbeltFile.readSync(seatbeltFilename)
+    assert.deepStrictEqual(seatbeltFile.toJSON().data, {
+      "a.js": { "no-var": 1 },
+      "b.js": { "no-var": 1 },
+    })
+  })
+
+  test("threadsafe processes time out waiting for the lock", async () => {
+    const lock = new FileLock(SeatbeltFile.lockFilename(seatbeltFilename))
+    lock.waitLock(0)
+    try {
+      const { code, output } = await runEslint(["a.js"], {
+        SEATBELT_THREADSAFE: "1",
+        SEATBELT_LOCK_TIMEOUT: "100",
+      })
+      assert.strictEqual(code, 2, output)
+      assert.match(output, /Timed out after 100ms waiting for lock/)
+      assert.match(output, /Another ESLint process may be updating/)
+    } finally {
+      lock.unlock()
+    }
+    assert.strictEqual(
+      SeatbeltFile.readSync(seatbeltFilename)
+        .getMaxErrors("a.js")
+        ?.get("no-var"),
+      2,
+    )
+  })
+
+  describe("frozenOutput", () => {
+    const updated = {
+      "a.js": { "no-var": 1 },
+      "b.js": { "no-var": 1 },
+    }
+
+    test("writes the updated copy to a file", async () => {
+      const original = fs.readFileSync(seatbeltFilename)
+      const outputFilename = path.join(tmpDir, "updated.seatbelt.tsv")
+      const { code, output } = await runEslint(["a.js", "b.js"], {
+        SEATBELT_FROZEN: "1",
+        SEATBELT_FROZEN_OUTPUT: "updated.seatbelt.tsv",
+      })
+      assert.strictEqual(code, 1, output)
+      assert.match(output, /SEATBELT_FROZEN_OUTPUT: wrote updated/)
+      assert.deepStrictEqual(
+        SeatbeltFile.readSync(outputFilename).toJSON().data,
+        updated,
+      )
+      assert.deepStrictEqual(fs.readFileSync(seatbeltFilename), original)
+      assert.strictEqual(countWrites(), 0)
+    })
+
+    test("writes the updated copy into a directory", async () => {
+      const original = fs.readFileSync(seatbeltFilename)
+      fs.mkdirSync(path.join(tmpDir, "artifacts"))
+      const { code, output } = await runEslint(["a.js", "b.js"], {
+        SEATBELT_FROZEN: "1",
+        SEATBELT_FROZEN_OUTPUT: "artifacts",
+      })
+      assert.strictEqual(code, 1, output)
+      assert.deepStrictEqual(
+        SeatbeltFile.readSync(
+          path.join(tmpDir, "artifacts", path.basename(seatbeltFilename)),
+        ).toJSON().data,
+        updated,
+      )
+      assert.deepStrictEqual(fs.readFileSync(seatbeltFilename), original)
+      assert.strictEqual(countWrites(), 0)
+    })
+  })
+
+  describe("message.seatbelt", () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tmpDir, "b.js"), "var b = 1\nvar c = 2\n")
+      fs.writeFileSync(path.join(tmpDir, "c.js"), "var c = 1\nvar d = 2\n")
+      fs.writeFileSync(
+        seatbeltFilename,
+        [
+          `"a.js"\t"no-var"\t2\n`,
+          `"b.js"\t"no-var"\t2\n`,
+          `"c.js"\t"no-var"\t1\n`,
+        ].join(""),
+      )
+    })
+
+    test("describes the seatbelt state of each error", async () => {
+      const { code, output, messages } = await lintMessages([
+        "a.js",
+        "b.js",
+        "c.js",
+      ])
+      assert.strictEqual(code, 1, output)
+      const seatbeltOf = (filename: string) =>
+        messages[filename].map(({ seatbelt }) => seatbelt)
+      assert.deepStrictEqual(seatbeltOf("a.js"), [
+        {
+          status: "under-limit",
+          errorCount: 1,
+          maxErrorCount: 2,
+          seatbeltFile: seatbeltFilename,
+        },
+      ])
+      const atLimit = {
+        status: "at-limit",
+        errorCount: 2,
+        maxErrorCount: 2,
+        seatbeltFile: seatbeltFilename,
+      }
+      assert.deepStrictEqual(seatbeltOf("b.js"), [atLimit, atLimit])
+      const overLimit = {
+        status: "over-limit",
+        errorCount: 2,
+        maxErrorCount: 1,
+        seatbeltFile: seatbeltFilename,
+      }
+      assert.deepStrictEqual(seatbeltOf("c.js"), [overLimit, overLimit])
+    })
+
+    test("describes frozen mismatches", async () => {
+      const { code, output, messages } = await lintMessages(["a.js"], {
+        SEATBELT_FROZEN: "1",
+      })
+      assert.strictEqual(code, 1, output)
+      assert.deepStrictEqual(messages["a.js"][0].seatbelt, {
+        status: "frozen-mismatch",
+        errorCount: 1,
+        maxErrorCount: 2,
+        seatbeltFile: seatbeltFilename,
+      })
+    })
+
+    test("messageSuffix: false leaves the message text unchanged", async () => {
+      const { code, output, messages } = await lintMessages(["a.js", "c.js"], {
+        SEATBELT_MESSAGE_SUFFIX: "0",
+      })
+      assert.strictEqual(code, 1, output)
+      for (const message of [...messages["a.js"], ...messages["c.js"]]) {
+        assert.strictEqual(
+          message.message,
+          "Unexpected var, use let or const instead.",
+        )
+      }
+      assert.strictEqual(messages["a.js"][0].seatbelt?.status, "under-limit")
+      assert.strictEqual(messages["c.js"][0].seatbelt?.status, "over-limit")
+    })
+
+    test("messages include the note by default", async () => {
+      const { messages } = await lintMessages(["a.js"])
+      assert.strictEqual(
+        messages["a.js"][0].message,
+        [
+          "Unexpected var, use let or const instead.",
+          "[eslint-seatbelt]: This file is temporarily allowed to have 2 errors of this type.",
+          "Thank you for fixing one, it really helps.",
+        ].join("\n"),
+      )
+    })
+  })
+
+  test("reports allowed errors as errors once their expiry date passes", async () => {
+    fs.writeFileSync(
+      seatbeltFilename,
+      [`"a.js"\t"no-var"\t2\t"2000-01-01"\n`, `"b.js"\t"no-var"\t2\n`].join(""),
+    )
+    const { code, output, messages } = await lintMessages(["a.js", "b.js"])
+    assert.strictEqual(code, 1, output)
+    assert.strictEqual(messages["a.js"][0].severity, 2)
+    assert.deepStrictEqual(messages["a.js"][0].seatbelt, {
+      status: "expired",
+      errorCount: 1,
+      maxErrorCount: 2,
+      seatbeltFile: seatbeltFilename,
+      expiresAt: "2000-01-01",
+    })
+    assert.match(messages["a.js"][0].message, /until 2000-01-01/)
+    assert.strictEqual(messages["b.js"][0].severity, 1)
+    // Decreasing the count keeps the date.
+    const seatbeltFile = SeatbeltFile.readSync(seatbeltFilename)
+    assert.strictEqual(seatbeltFile.getMaxErrors("a.js")?.get("no-var"), 1)
+    assert.strictEqual(
+      seatbeltFile.getExpiresAt("a.js")?.get("no-var"),
+      "2000-01-01",
+    )
+  })
+
+  describe("allowedSeverity", () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tmpDir, "c.js"), "var c = 1\nvar d = 2\n")
+      fs.writeFileSync(
+        seatbeltFilename,
+        [
+          `"a.js"\t"no-var"\t1\n`,
+          `"b.js"\t"no-var"\t2\n`,
+          `"c.js"\t"no-var"\t1\n`,
+        ].join(""),
+      )
+    })
+
+    const frozenMismatch = /Expected 2 errors, found 1/
+    const overLimit = /There are 2 errors of this type, but only 1 are allowed/
+
+    test("warn reports allowed errors as warnings", async () => {
+      const { code, output, messages } = await lintMessages(
+        ["a.js", "b.js", "c.js"],
+        { SEATBELT_FROZEN: "1", SEATBELT_ALLOWED_SEVERITY: "warn" },
+      )
+      assert.strictEqual(code, 1, output)
+      assert.deepStrictEqual(
+        messages["a.js"].map(({ severity }) => severity),
+        [1],
+      )
+      assert.strictEqual(messages["b.js"][0].severity, 2)
+      assert.match(messages["b.js"][0].message, frozenMismatch)
+      assert.deepStrictEqual(
+        messages["c.js"].map(({ severity }) => severity),
+        [2, 2],
+      )
+      assert.match(messages["c.js"][0].message, overLimit)
+    })
+
+    for (const allowedSeverity of ["suppress", "off"]) {
+      test(`${allowedSeverity} hides allowed errors`, async () => {
+        const { code, output, messages } = await lintMessages(
+          ["a.js", "b.js", "c.js"],
+          { SEATBELT_FROZEN: "1", SEATBELT_ALLOWED_SEVERITY: allowedSeverity },
+        )
+        assert.strictEqual(code, 1, output)
+        assert.deepStrictEqual(messages["a.js"], [])
+        assert.strictEqual(messages["b.js"].length, 1)
+        assert.strictEqual(messages["b.js"][0].severity, 2)
+        assert.match(messages["b.js"][0].message, frozenMismatch)
+        assert.deepStrictEqual(
+          messages["c.js"].map(({ severity }) => severity),
+          [2, 2],
+        )
+        assert.match(messages["c.js"][0].message, overLimit)
+      })
+    }
+
+    test("frozen mismatches fail the run in every mode", async () => {
+      for (const allowedSeverity of ["warn", "suppress", "off"]) {
+        const { code, output } = await runEslint(["b.js"], {
+          SEATBELT_FROZEN: "1",
+          SEATBELT_ALLOWED_SEVERITY: allowedSeverity,
+        })
+        assert.strictEqual(code, 1, `${allowedSeverity}: ${output}`)
+      }
+    })
+  })
+})
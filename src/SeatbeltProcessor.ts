@@ -1,15 +1,31 @@
 import type { Linter } from "eslint"
 import packageJson from "../package.json"
-import { RuleId, SeatbeltFile } from "./SeatbeltFile"
+import { RuleId, SeatbeltAggregateBudget } from "./SeatbeltFile"
+import type { SeatbeltStore } from "./SeatbeltStore"
+import { SeatbeltStoreBase } from "./SeatbeltStoreBase"
 import {
+  clearSeatbeltFileSearchCache,
   formatFilename,
   formatRuleId,
-  SEATBELT_FROZEN,
+  formatShellArg,
   SEATBELT_INCREASE,
+  SEATBELT_SUPPRESSION_KIND,
   SeatbeltArgs,
 } from "./SeatbeltConfig"
 import * as pluginGlobals from "./pluginGlobals"
+import {
+  SeatbeltLintMessage,
+  SeatbeltMessageData,
+  SeatbeltMessageTemplates,
+} from "./SeatbeltMessage"
+import { SEATBELT_MESSAGE_LOCALES } from "./messageLocales"
 import { appendErrorContext } from "./errorHanding"
+import { clearRealpathCache } from "./paths"
+import {
+  fingerprintMessage,
+  matchFingerprints,
+  splitSourceLines,
+} from "./fingerprints"
 
 const { name, version } = packageJson
 
@@ -28,13 +44,20 @@ export const SeatbeltProcessor: Linter.Processor = {
   },
   // takes text of the file and filename
   preprocess(text, filename) {
-    pluginGlobals.onPreprocess(filename)
+    if (pluginGlobals.isWrappedCodeBlock(filename)) {
+      return [text]
+    }
+    pluginGlobals.onPreprocess(filename, text)
     // We don't need to do anything here, pass through the data unchanged.
     return [text]
   },
 
   /** Where the action happens. */
   postprocess(messagesPerSection, filename) {
+    if (pluginGlobals.isWrappedCodeBlock(filename)) {
+      // Counted by the wrapper once all blocks of the file are linted.
+      return messagesPerSection.flat()
+    }
     pluginGlobals.onPostprocess(filename)
     // takes a Message[][] and filename
     // `messages` argument contains two-dimensional array of Message objects
@@ -46,17 +69,32 @@ export const SeatbeltProcessor: Linter.Processor = {
       )
     }
     const messages = messagesPerSection[0]
+    const sourceText = pluginGlobals.popSourceText(filename)
 
     const args = pluginGlobals.popFileArgs(filename)
     if (args.disable) {
       return messages
     }
+    pluginGlobals.registerEslintCliExitHandler()
 
-    const seatbeltFile = pluginGlobals.getSeatbeltFile(args.seatbeltFile)
-    if (args.threadsafe || !pluginGlobals.isEslintCli()) {
+    const seatbeltFile = pluginGlobals.getSeatbeltFile(
+      args.seatbeltFile,
+      args.storage,
+    )
+    if (!pluginGlobals.isEslintCli()) {
+      // Each lint in an editor is its own run, see clearRealpathCache.
+      clearRealpathCache()
+      clearSeatbeltFileSearchCache()
+    }
+    // Dry runs keep their pending changes in memory until the CLI exits.
+    if ((args.threadsafe && !args.dryRun) || !pluginGlobals.isEslintCli()) {
       seatbeltFile.readSync()
     }
     const ruleToErrorCount = countRuleIds(messages)
+    const fingerprints =
+      args.fingerprints && sourceText !== undefined
+        ? fingerprintMessages(messages, sourceText)
+        : undefined
     const verboseOnce = args.verbose ? createOnce<RuleId>() : () => false
     try {
       const transformed = transformMessages(
@@ -66,17 +104,16 @@ export const SeatbeltProcessor: Linter.Processor = {
         messages,
         ruleToErrorCount,
         verboseOnce,
+        fingerprints,
       )
 
       try {
-        // Ideally we could find a way to batch writes until all linting is finished, but I haven't found a
-        // good way to schedule our code to run after all files but before
-        // ESLint returns to its caller or exits.
         const additionalMessages = maybeWriteStateUpdate(
           args,
           seatbeltFile,
           filename,
           ruleToErrorCount,
+          fingerprints?.byRule,
         )
 
         if (additionalMessages) {
@@ -106,25 +143,36 @@ function createOnce<T>(): (value: T) => boolean {
 
 function transformMessages(
   args: SeatbeltArgs,
-  seatbeltFile: SeatbeltFile,
+  seatbeltFile: SeatbeltStore,
   filename: string,
   messages: Linter.LintMessage[],
   ruleToErrorCount: Map<RuleId, number>,
   verboseOnce: (ruleId: RuleId) => boolean,
+  fingerprints?: MessageFingerprints,
 ) {
   if (args.disable) {
     return messages
   }
 
   const ruleToMaxErrorCount = seatbeltFile.getMaxErrors(filename)
+  const ruleToExpiresAt = seatbeltFile.getExpiresAt(filename)
+  const ruleToStoredFingerprints = fingerprints
+    ? seatbeltFile.getFingerprints(filename)
+    : undefined
+  const ruleToFingerprintMatcher = new Map<RuleId, FingerprintMatcher>()
+  const now = new Date()
   const allowIncrease =
     args.allowIncreaseRules === "all" || args.allowIncreaseRules.size > 0
-  if (!ruleToMaxErrorCount && !allowIncrease) {
+  if (
+    !ruleToMaxErrorCount &&
+    !allowIncrease &&
+    !seatbeltFile.hasAggregateBudgets()
+  ) {
     // We have no state related to this file, so no need to consider it.
     return messages
   }
 
-  return messages.map((message) => {
+  const transformed = messages.map((message) => {
     if (message.ruleId === null) {
       SeatbeltArgs.verboseLog(
         args,
@@ -150,13 +198,122 @@ function transformMessages(
       args.allowIncreaseRules,
       message.ruleId,
     )
-    if (maxErrorCount === 0 && !allowIncrease) {
+    const storedFingerprints = ruleToStoredFingerprints?.get(message.ruleId)
+    const fingerprint = fingerprints?.byMessage.get(message)
+    if (storedFingerprints && fingerprint !== undefined) {
+      let matcher = ruleToFingerprintMatcher.get(message.ruleId)
+      if (!matcher) {
+        matcher = createFingerprintMatcher(
+          fingerprints?.byRule.get(message.ruleId) ?? [],
+          storedFingerprints,
+        )
+        ruleToFingerprintMatcher.set(message.ruleId, matcher)
+      }
+      if (!matcher.consume(fingerprint)) {
+        if (allowIncrease) {
+          return messageOverMaxErrorCountButIncreaseAllowed(
+            args,
+            filename,
+            message,
+            errorCount,
+            maxErrorCount,
+          )
+        }
+        const aggregateBudget = seatbeltFile.findAggregateBudget(
+          filename,
+          message.ruleId,
+        )
+        if (aggregateBudget) {
+          return messageCountedTowardsAggregateBudget(
+            args,
+            filename,
+            message,
+            errorCount,
+            aggregateBudget,
+          )
+        }
+        if (verboseOnce(message.ruleId)) {
+          SeatbeltArgs.verboseLog(
+            args,
+            () =>
+              `${formatFilename(filename)}: ${formatRuleId(message.ruleId)}: error: new fingerprint not in seatbelt file`,
+          )
+        }
+        return messageNewFingerprint(
+          args,
+          filename,
+          message,
+          errorCount,
+          maxErrorCount,
+        )
+      }
+
+      // The error is already allowed. Treat the matched errors as the count.
+      const expiresAt = ruleToExpiresAt?.get(message.ruleId)
+      if (expiresAt && SeatbeltStoreBase.isExpired(expiresAt, now)) {
+        return messageExpired(
+          args,
+          filename,
+          message,
+          errorCount,
+          maxErrorCount,
+          expiresAt,
+        )
+      } else if (matcher.matchedCount === maxErrorCount) {
+        return messageAtMaxErrorCount(
+          args,
+          filename,
+          message,
+          matcher.matchedCount,
+        )
+      } else if (args.frozen) {
+        return messageFrozenUnderMaxErrorCount(
+          args,
+          filename,
+          message,
+          matcher.matchedCount,
+          maxErrorCount,
+        )
+      }
+      return messageUnderMaxErrorCount(
+        args,
+        filename,
+        message,
+        matcher.matchedCount,
+        maxErrorCount,
+      )
+    }
+
+    const aggregateBudget =
+      errorCount > maxErrorCount && !allowIncrease
+        ? seatbeltFile.findAggregateBudget(filename, message.ruleId)
+        : undefined
+    if (aggregateBudget) {
+      // Errors may move between files covered by the same aggregate budget.
+      // The total is checked when the run finishes.
+      if (verboseOnce(message.ruleId)) {
+        SeatbeltArgs.verboseLog(
+          args,
+          () =>
+            `${formatFilename(filename)}: ${formatRuleId(message.ruleId)}: ok: ${errorCount} ${pluralErrors(errorCount)} found > max ${maxErrorCount}, counted towards ${aggregateBudget.pattern}`,
+        )
+      }
+      return messageCountedTowardsAggregateBudget(
+        args,
+        filename,
+        message,
+        errorCount,
+        aggregateBudget,
+      )
+    } else if (maxErrorCount === 0 && !allowIncrease) {
       // Rule not controlled by seatbelt, just pass it through unchanged.
       return message
     } else if (errorCount > maxErrorCount) {
       if (allowIncrease) {
         // Rule is allowed to increase from 0 -> any, so it should become a warning.
         return messageOverMaxErrorCountButIncreaseAllowed(
+          args,
+          filename,
           message,
           errorCount,
           maxErrorCount,
@@ -173,7 +330,33 @@ function transformMessages(
             `${formatFilename(filename)}: ${formatRuleId(message.ruleId)}: error: ${errorCount} ${pluralErrors(errorCount)} found > max ${maxErrorCount}`,
         )
       }
-      return messageOverMaxErrorCount(message, errorCount, maxErrorCount)
+      return messageOverMaxErrorCount(
+        args,
+        filename,
+        message,
+        errorCount,
+        maxErrorCount,
+      )
+    }
+
+    const expiresAt = ruleToExpiresAt?.get(message.ruleId)
+    if (expiresAt && SeatbeltStoreBase.isExpired(expiresAt, now)) {
+      // The deadline passed, so these errors are no longer allowed.
+      if (verboseOnce(message.ruleId)) {
+        SeatbeltArgs.verboseLog(
+          args,
+          () =>
+            `${formatFilename(filename)}: ${formatRuleId(message.ruleId)}: error: max ${maxErrorCount} expired on ${expiresAt}`,
+        )
+      }
+      return messageExpired(
+        args,
+        filename,
+        message,
+        errorCount,
+        maxErrorCount,
+        expiresAt,
+      )
     } else if (errorCount === maxErrorCount) {
       // For rules under the limit, turn errors into warnings.
       // Add an appropriate notice about seatbelt violation status.
@@ -185,21 +368,126 @@ function transformMessages(
         )
       }
 
-      return messageAtMaxErrorCount(message, errorCount)
+      return messageAtMaxErrorCount(args, filename, message, errorCount)
     } else {
       if (args.frozen) {
         // We're frozen, so it's actually an error to decrease the error count.
         return messageFrozenUnderMaxErrorCount(
-          message,
+          args,
           filename,
+          message,
           errorCount,
           maxErrorCount,
         )
       }
       // Can tighten the seatbelt.
-      return messageUnderMaxErrorCount(message, errorCount, maxErrorCount)
+      return messageUnderMaxErrorCount(
+        args,
+        filename,
+        message,
+        errorCount,
+        maxErrorCount,
+      )
     }
   })
+  return applyAllowedSeverity(args, messages, transformed)
+}
+
+/**
+ * Allowed errors are downgraded to warnings while transforming, and everything
+ * else, including `frozen` mismatches, keeps its error severity. For the other
+ * `allowedSeverity` modes, suppress or drop the allowed errors instead.
+ */
+function applyAllowedSeverity(
+  args: SeatbeltArgs,
+  original: Linter.LintMessage[],
+  transformed: Linter.LintMessage[],
+): Linter.LintMessage[] {
+  if (args.allowedSeverity === "warn") {
+    return transformed
+  }
+  const suppress =
+    args.allowedSeverity === "suppress" &&
+    pluginGlobals.supportsSuppressedMessages()
+  const result: Linter.LintMessage[] = []
+  transformed.forEach((message, i) => {
+    const originalMessage = original[i]
+    if (!isCountableLintError(originalMessage)) {
+      result.push(message)
+    } else if (!isAllowed(message)) {
+      result.push({ ...message, severity: originalMessage.severity })
+    } else if (suppress) {
+      const suppressed: Linter.SuppressedLintMessage = {
+        ...message,
+        severity: originalMessage.severity,
+        suppressions: [
+          {
+            kind: SEATBELT_SUPPRESSION_KIND,
+            justification: `Allowed by ${formatFilename(args.seatbeltFile)}`,
+          },
+        ],
+      }
+      result.push(suppressed)
+    }
+  })
+  return result
+}
+
+interface MessageFingerprints {
+  byMessage: Map<Linter.LintMessage, string>
+  byRule: Map<RuleId, string[]>
+}
+
+function fingerprintMessages(
+  messages: Linter.LintMessage[],
+  sourceText: string,
+): MessageFingerprints {
+  const sourceLines = splitSourceLines(sourceText)
+  const byMessage = new Map<Linter.LintMessage, string>()
+  const byRule = new Map<RuleId, string[]>()
+  messages.forEach((message) => {
+    if (!isCountableLintError(message)) {
+      return
+    }
+    const fingerprint = fingerprintMessage(message, sourceLines)
+    byMessage.set(message, fingerprint)
+    let ruleFingerprints = byRule.get(message.ruleId)
+    if (!ruleFingerprints) {
+      ruleFingerprints = []
+      byRule.set(message.ruleId, ruleFingerprints)
+    }
+    ruleFingerprints.push(fingerprint)
+  })
+  return { byMessage, byRule }
+}
+
+interface FingerprintMatcher {
+  /** Number of current errors matching a stored fingerprint. */
+  matchedCount: number
+  /** True if `fingerprint` matches a stored fingerprint not consumed yet. */
+  consume(fingerprint: string): boolean
+}
+
+function createFingerprintMatcher(
+  current: readonly string[],
+  stored: readonly string[],
+): FingerprintMatcher {
+  const matched = matchFingerprints(current, stored)
+  const remaining = new Map<string, number>()
+  for (const fingerprint of matched) {
+    remaining.set(fingerprint, (remaining.get(fingerprint) ?? 0) + 1)
+  }
+  return {
+    matchedCount: matched.length,
+    consume(fingerprint) {
+      const count = remaining.get(fingerprint) ?? 0
+      if (count === 0) {
+        return false
+      }
+      remaining.set(fingerprint, count - 1)
+      return true
+    },
+  }
 }
 
 function isCountableLintError(
@@ -239,28 +527,64 @@ function countRuleIds(messages: Linter.LintMessage[]): Map<RuleId, number> {
 
 function maybeWriteStateUpdate(
   args: SeatbeltArgs,
-  stateFile: SeatbeltFile,
+  stateFile: SeatbeltStore,
   filename: string,
   ruleToErrorCount: Map<RuleId, number>,
+  ruleToFingerprints: Map<RuleId, string[]> | undefined,
 ): Linter.LintMessage[] | undefined {
   if (args.disable) {
     return
   }
-  if (args.threadsafe) {
-    // TODO: Implement locking
-    // For now just refresh the file.
-    stateFile.readSync()
+  if (args.threadsafe && !args.frozen && !args.dryRun) {
+    return stateFile.withLockSync(args.lockTimeout, () => {
+      // Apply our counts on top of updates from other processes.
+      stateFile.readSync()
+      return updateStateFile(
+        args,
+        stateFile,
+        filename,
+        ruleToErrorCount,
+        ruleToFingerprints,
+      )
+    })
   }
+  return updateStateFile(
+    args,
+    stateFile,
+    filename,
+    ruleToErrorCount,
+    ruleToFingerprints,
+  )
+}
 
+function updateStateFile(
+  args: SeatbeltArgs,
+  stateFile: SeatbeltStore,
+  filename: string,
+  ruleToErrorCount: Map<RuleId, number>,
+  ruleToFingerprints: Map<RuleId, string[]> | undefined,
+): Linter.LintMessage[] | undefined {
   const ruleToMaxErrorCount = stateFile.getMaxErrors(filename)
   const { removedRules } = stateFile.updateMaxErrors(
     filename,
     args,
     ruleToErrorCount,
+    ruleToFingerprints,
   )
   if (!args.frozen) {
-    stateFile.flushChanges()
-  } else if (removedRules && removedRules.size > 0) {
+    if (!pluginGlobals.deferFlush(args, stateFile)) {
+      stateFile.flushChanges()
+    }
+    return
+  }
+  pluginGlobals.updateFrozenOutput(
+    args,
+    stateFile,
+    filename,
+    ruleToErrorCount,
+    ruleToFingerprints,
+  )
+  if (removedRules && removedRules.size > 0) {
     // We didn't actually update the state file in this case.
     // We need to add an original error message about the inconsistent state.
     return Array.from(removedRules).map((ruleId) => {
@@ -270,108 +594,205 @@ function maybeWriteStateUpdate(
           `${name} bug: maxErrorCount not found for removed frozen rule ${ruleId}`,
         )
       }
-      const message: Linter.LintMessage = {
+      const seatbelt: SeatbeltMessageData = {
+        status: "frozen-mismatch",
+        errorCount: 0,
+        maxErrorCount,
+        seatbeltFile: args.seatbeltFile,
+      }
+      const message: SeatbeltLintMessage = {
         ruleId,
         column: 0,
         line: 1,
         severity: 2,
-        message: messageFrozenUnderMaxErrorCountText(
-          filename,
-          0,
-          maxErrorCount,
-        ),
+        // This message has no text of its own, so always include the note.
+        message: formatNote(args, filename, ruleId, seatbelt),
+        seatbelt,
       }
       return message
     })
   }
 }
 
+/**
+ * Add seatbelt state to `message`, and unless disabled with `messageSuffix`,
+ * append an explanation from the message templates.
+ */
+function seatbeltMessage(
+  args: SeatbeltArgs,
+  filename: string,
+  message: Linter.LintMessage,
+  data: Omit<SeatbeltMessageData, "seatbeltFile">,
+): SeatbeltLintMessage {
+  const seatbelt = { ...data, seatbeltFile: args.seatbeltFile }
+  return {
+    ...message,
+    severity: SeatbeltMessageData.isAllowed(seatbelt) ? 1 : message.severity,
+    message: args.messageSuffix
+      ? `${message.message}\n${formatNote(args, filename, message.ruleId, seatbelt)}`
+      : message.message,
+    seatbelt,
+  }
+}
+
+function formatNote(
+  args: SeatbeltArgs,
+  filename: string,
+  ruleId: RuleId | null,
+  data: SeatbeltMessageData,
+): string {
+  const template =
+    args.messages[data.status] ??
+    SEATBELT_MESSAGE_LOCALES[args.locale][data.status]
+  const note = SeatbeltMessageTemplates.format(template, {
+    errorCount: data.errorCount,
+    maxErrorCount: data.maxErrorCount,
+    excessCount: Math.max(data.errorCount - data.maxErrorCount, 0),
+    fixedCount: Math.max(data.maxErrorCount - data.errorCount, 0),
+    ruleId: ruleId ?? "",
+    filename: formatFilename(filename),
+    seatbeltFile: formatFilename(data.seatbeltFile),
+    fixCommand: formatFixCommand(filename, ruleId, data),
+    pattern: data.pattern,
+    expiresAt: data.expiresAt,
+  })
+  return `[${name}]: ${note}`
+}
+
+function formatFixCommand(
+  filename: string,
+  ruleId: RuleId | null,
+  data: SeatbeltMessageData,
+): string {
+  const file = formatShellArg(formatFilename(filename))
+  switch (data.status) {
+    case "over-limit":
+    case "new-fingerprint":
+      return `${SEATBELT_INCREASE}=${formatShellArg(ruleId ?? "ALL")} eslint ${file}`
+    case "expired":
+      return `${name} expiry ${formatShellArg(formatFilename(data.seatbeltFile))}`
+    default:
+      return `eslint ${file}`
+  }
+}
+
+function isAllowed(message: Linter.LintMessage): boolean {
+  const data = SeatbeltMessageData.fromMessage(message)
+  return data !== undefined && SeatbeltMessageData.isAllowed(data)
+}
+
 function messageOverMaxErrorCount(
+  args: SeatbeltArgs,
+  filename: string,
   message: Linter.LintMessage,
   errorCount: number,
   maxErrorCount: number,
 ): Linter.LintMessage {
-  return {
-    ...message,
-    message: `${message.message}
-[${name}]: There are ${errorCount} ${pluralErrors(errorCount)} of this type, but only ${maxErrorCount} are allowed.
-Remove ${errorCount - maxErrorCount} to turn these errors into warnings.
-    `.trim(),
-  }
+  return seatbeltMessage(args, filename, message, {
+    status: "over-limit",
+    errorCount,
+    maxErrorCount,
+  })
 }
 
 function messageOverMaxErrorCountButIncreaseAllowed(
+  args: SeatbeltArgs,
+  filename: string,
   message: Linter.LintMessage,
   errorCount: number,
   maxErrorCount: number,
 ): Linter.LintMessage {
-  const increaseCount = errorCount - maxErrorCount
+  return seatbeltMessage(args, filename, message, {
+    status: "increase-allowed",
+    errorCount,
+    maxErrorCount,
+  })
+}
 
-  return {
-    ...message,
-    severity: 1,
-    message: `${message.message}
-[${name}]: ${SEATBELT_INCREASE}: Temporarily allowing ${increaseCount} new ${pluralErrors(increaseCount)} of this type.
-    `.trim(),
-  }
+function messageCountedTowardsAggregateBudget(
+  args: SeatbeltArgs,
+  filename: string,
+  message: Linter.LintMessage,
+  errorCount: number,
+  budget: SeatbeltAggregateBudget,
+): Linter.LintMessage {
+  return seatbeltMessage(args, filename, message, {
+    status: "aggregate-budget",
+    errorCount,
+    maxErrorCount: budget.maxErrors,
+    pattern: budget.pattern,
+  })
 }
 
-function messageAtMaxErrorCount(
+function messageNewFingerprint(
+  args: SeatbeltArgs,
+  filename: string,
   message: Linter.LintMessage,
   errorCount: number,
+  maxErrorCount: number,
 ): Linter.LintMessage {
-  return {
-    ...message,
-    severity: 1,
-    message: `${message.message}
-[${name}]: This file is temporarily allowed to have ${errorCount} ${pluralErrors(errorCount)} of this type.
-Please tend the garden by fixing if you have the time.
-    `.trim(),
-  }
+  return seatbeltMessage(args, filename, message, {
+    status: "new-fingerprint",
+    errorCount,
+    maxErrorCount,
+  })
 }
 
-function messageUnderMaxErrorCount(
+function messageExpired(
+  args: SeatbeltArgs,
+  filename: string,
   message: Linter.LintMessage,
   errorCount: number,
   maxErrorCount: number,
+  expiresAt: string,
 ): Linter.LintMessage {
-  const fixed = errorCount - maxErrorCount
-  const fixedMessage = fixed === 1 ? "one" : `${fixed} errors`
-  return {
-    ...message,
-    severity: 1,
-    message: `${message.message}
-[${name}]: This file is temporarily allowed to have ${maxErrorCount} ${pluralErrors(maxErrorCount)} of this type.
-Thank you for fixing ${fixedMessage}, it really helps.
-    `.trim(),
-  }
+  return seatbeltMessage(args, filename, message, {
+    status: "expired",
+    errorCount,
+    maxErrorCount,
+    expiresAt,
+  })
 }
 
-function messageFrozenUnderMaxErrorCountText(
-  seatbeltFilename: string,
+function messageAtMaxErrorCount(
+  args: SeatbeltArgs,
+  filename: string,
+  message: Linter.LintMessage,
+  errorCount: number,
+): Linter.LintMessage {
+  return seatbeltMessage(args, filename, message, {
+    status: "at-limit",
+    errorCount,
+    maxErrorCount: errorCount,
+  })
+}
+
+function messageUnderMaxErrorCount(
+  args: SeatbeltArgs,
+  filename: string,
+  message: Linter.LintMessage,
   errorCount: number,
   maxErrorCount: number,
-) {
-  const fixed = errorCount - maxErrorCount
-  const fixedMessage = fixed === 1 ? "error" : "errors"
-  return `
-[${name}]: ${SEATBELT_FROZEN}: Expected ${maxErrorCount} ${pluralErrors(maxErrorCount)}, found ${errorCount}.
-If you fixed ${fixed} ${fixedMessage}, thank you, but you'll need to update the seatbelt file to match.
-Try running eslint, then committing ${seatbeltFilename}.
-`.trim()
+): Linter.LintMessage {
+  return seatbeltMessage(args, filename, message, {
+    status: "under-limit",
+    errorCount,
+    maxErrorCount,
+  })
 }
 
 function messageFrozenUnderMaxErrorCount(
+  args: SeatbeltArgs,
+  filename: string,
   message: Linter.LintMessage,
-  seatbeltFilename: string,
   errorCount: number,
   maxErrorCount: number,
 ): Linter.LintMessage {
-  return {
-    ...message,
-    severity: 1,
-    message: `${message.message}\n${messageFrozenUnderMaxErrorCountText(seatbeltFilename, errorCount, maxErrorCount)}`,
-  }
+  return seatbeltMessage(args, filename, message, {
+    status: "frozen-mismatch",
+    errorCount,
+    maxErrorCount,
+  })
 }
 
 const alreadyModifiedError = new WeakSet<Error>()
@@ -0,0 +1,252 @@
+import * as fs from "node:fs"
+import * as nodePath from "node:path"
+import type { DatabaseSync } from "node:sqlite"
+import {
+  RuleId,
+  SEATBELT_FILE_FORMAT_VERSION,
+  SeatbeltAnnotations,
+  SourceFileName,
+} from "./SeatbeltFile"
+import { SeatbeltEntries, SeatbeltStoreBase } from "./SeatbeltStoreBase"
+import { appendErrorContext, isErrno } from "./errorHanding"
+
+const TABLE = "seatbelt_entries"
+
+const CREATE_TABLE = `
+CREATE TABLE IF NOT EXISTS ${TABLE} (
+  filename TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  max_errors INTEGER NOT NULL,
+  expires_at TEXT,
+  annotations TEXT,
+  fingerprints TEXT,
+  PRIMARY KEY (filename, rule_id)
+)`
+
+interface SeatbeltSqliteRow {
+  filename: SourceFileName
+  rule_id: string
+  max_errors: number
+  expires_at: string | null
+  /** JSON object */
+  annotations: string | null
+  /** JSON array */
+  fingerprints: string | null
+}
+
+/**
+ * Seatbelt file stored in a SQLite database, one row per file and rule in the
+ * `seatbelt_entries` table:
+ *
+ * ```sql
+ * SELECT rule_id, SUM(max_errors) FROM seatbelt_entries GROUP BY rule_id;
+ * ```
+ *
+ * Filenames are relative to the database file, like in the TSV format.
+ * `annotations` and `fingerprints` hold JSON. Rows are read by filename when
+ * first needed, and each write updates only the rows of changed files in a
+ * single transaction, so large repositories don't pay for the whole table.
+ *
+ * Uses the `node:sqlite` module built into Node.js 22.5 and later.
+ */
+export class SeatbeltSqliteFile extends SeatbeltStoreBase {
+  static readSync(filename: string): SeatbeltSqliteFile {
+    // Opening a database creates it, so check that it exists first.
+    fs.statSync(filename)
+    const seatbeltFile = new SeatbeltSqliteFile(filename)
+    try {
+      seatbeltFile.database()
+    } catch (e) {
+      appendErrorContext(e, `in seatbelt file \`${filename}\``)
+      throw e
+    }
+    return seatbeltFile
+  }
+
+  static openSync(filename: string): SeatbeltSqliteFile {
+    try {
+      return SeatbeltSqliteFile.readSync(filename)
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) {
+        return new SeatbeltSqliteFile(filename)
+      }
+      throw e
+    }
+  }
+
+  /** Opened when first needed, and only once the database exists. */
+  private db: DatabaseSync | undefined
+
+  protected readEntries(key: SourceFileName): SeatbeltEntries | undefined {
+    const db = this.database()
+    if (!db) {
+      return undefined
+    }
+    try {
+      const rows = db
+        .prepare(
+          `SELECT rule_id, max_errors, expires_at, annotations, fingerprints FROM ${TABLE} WHERE filename = ?`,
+        )
+        .all(key) as SeatbeltSqliteRow[]
+      return rowsToEntries(rows)
+    } catch (e) {
+      appendErrorContext(e, `in seatbelt file \`${this.filename}\``)
+      throw e
+    }
+  }
+
+  protected readKeys(): Iterable<SourceFileName> {
+    const db = this.database()
+    if (!db) {
+      return []
+    }
+    const rows = db
+      .prepare(`SELECT DISTINCT filename FROM ${TABLE}`)
+      .all() as Pick<SeatbeltSqliteRow, "filename">[]
+    return rows.map((row) => row.filename)
+  }
+
+  /** Rows are read from the database on demand, so there's nothing to reload. */
+  protected reloadSync(): boolean {
+    return false
+  }
+
+  /** The table has no format version, so this returns the current one. */
+  migrate(): number {
+    return SEATBELT_FILE_FORMAT_VERSION
+  }
+
+  /**
+   * Write the rows of changed files in a single transaction.
+   *
+   * Copies elsewhere start as a copy of the database, then changed rows are
+   * written to them.
+   */
+  writeSync(filename: string = this.filename) {
+    filename = nodePath.resolve(filename)
+    fs.mkdirSync(nodePath.dirname(filename), { recursive: true })
+    let db: DatabaseSync
+    if (filename === this.filename) {
+      db = this.db ??= openDatabase(filename)
+    } else {
+      fs.rmSync(filename, { force: true })
+      if (fs.existsSync(this.filename)) {
+        fs.copyFileSync(this.filename, filename)
+      }
+      db = openDatabase(filename)
+    }
+    try {
+      db.exec("BEGIN IMMEDIATE")
+      try {
+        this.writeChangedRows(db)
+        db.exec("COMMIT")
+      } catch (e) {
+        db.exec("ROLLBACK")
+        throw e
+      }
+    } catch (e) {
+      appendErrorContext(e, `while writing \`${filename}\``)
+      throw e
+    } finally {
+      if (db !== this.db) {
+        db.close()
+      }
+    }
+  }
+
+  private writeChangedRows(db: DatabaseSync) {
+    const selectRuleIds = db.prepare(
+      `SELECT rule_id FROM ${TABLE} WHERE filename = ?`,
+    )
+    const deleteFile = db.prepare(`DELETE FROM ${TABLE} WHERE filename = ?`)
+    const deleteRule = db.prepare(
+      `DELETE FROM ${TABLE} WHERE filename = ? AND rule_id = ?`,
+    )
+    const upsert = db.prepare(
+      `INSERT INTO ${TABLE} (filename, rule_id, max_errors, expires_at, annotations, fingerprints) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (filename, rule_id) DO UPDATE SET max_errors = excluded.max_errors, expires_at = excluded.expires_at, annotations = excluded.annotations, fingerprints = excluded.fingerprints`,
+    )
+    for (const sourceFile of this.changedKeys) {
+      const entries = this.getEntries(sourceFile)
+      if (!entries) {
+        deleteFile.run(sourceFile)
+        continue
+      }
+      const storedRuleIds = selectRuleIds.all(sourceFile) as Pick<
+        SeatbeltSqliteRow,
+        "rule_id"
+      >[]
+      for (const { rule_id } of storedRuleIds) {
+        if (!entries.maxErrors.has(rule_id)) {
+          deleteRule.run(sourceFile, rule_id)
+        }
+      }
+      entries.maxErrors.forEach((maxErrorCount, ruleId) => {
+        const annotations = entries.annotations.get(ruleId)
+        const fingerprints = entries.fingerprints.get(ruleId)
+        upsert.run(
+          sourceFile,
+          ruleId,
+          maxErrorCount,
+          entries.expiresAt.get(ruleId) ?? null,
+          annotations ? JSON.stringify(annotations) : null,
+          fingerprints ? JSON.stringify(fingerprints) : null,
+        )
+      })
+    }
+  }
+
+  private database(): DatabaseSync | undefined {
+    if (!this.db && fs.existsSync(this.filename)) {
+      this.db = openDatabase(this.filename)
+    }
+    return this.db
+  }
+}
+
+function openDatabase(filename: string): DatabaseSync {
+  const sqlite = process.getBuiltinModule?.("node:sqlite")
+  if (!sqlite) {
+    throw new Error(
+      `SQLite seatbelt storage requires the node:sqlite module from Node.js 22.5 or later (with --experimental-sqlite before 22.13), but this is Node.js ${process.version}. Use "tsv" or "json" storage instead.`,
+    )
+  }
+  const db = new sqlite.DatabaseSync(filename)
+  try {
+    db.exec(CREATE_TABLE)
+  } catch (e) {
+    db.close()
+    throw e
+  }
+  return db
+}
+
+function rowsToEntries(rows: SeatbeltSqliteRow[]): SeatbeltEntries | undefined {
+  if (rows.length === 0) {
+    return undefined
+  }
+  const entries = {
+    maxErrors: new Map<RuleId, number>(),
+    expiresAt: new Map<RuleId, string>(),
+    annotations: new Map<RuleId, SeatbeltAnnotations>(),
+    fingerprints: new Map<RuleId, string[]>(),
+  }
+  for (const row of rows) {
+    entries.maxErrors.set(row.rule_id, Number(row.max_errors))
+    if (row.expires_at !== null) {
+      entries.expiresAt.set(row.rule_id, row.expires_at)
+    }
+    try {
+      if (row.annotations !== null) {
+        entries.annotations.set(row.rule_id, JSON.parse(row.annotations))
+      }
+      if (row.fingerprints !== null) {
+        entries.fingerprints.set(row.rule_id, JSON.parse(row.fingerprints))
+      }
+    } catch (e) {
+      appendErrorContext(e, `at row for rule \`${row.rule_id}\``)
+      throw e
+    }
+  }
+  return entries
+}
@@ -0,0 +1,100 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import { SeatbeltFile } from "./SeatbeltFile"
+import { SeatbeltStats, SeatbeltStatsRow, UNOWNED } from "./SeatbeltStats"
+
+function row(
+  name: string,
+  allowed: number,
+  files: number,
+  rules: number,
+): SeatbeltStatsRow {
+  return { name, allowed, files, rules }
+}
+
+describe("SeatbeltStats", () => {
+  test("fromFiles() totals allowed errors per rule, directory and file", () => {
+    const file = SeatbeltFile.parse(
+      "/test/eslint.seatbelt.tsv",
+      [
+        `"src/a.ts"\t"no-var"\t2`,
+        `"src/a.ts"\t"eqeqeq"\t1\tnull\t{"owner":"ui"}`,
+        `"src/b.ts"\t"no-var"\t3`,
+        `"lib/c.ts"\t"eqeqeq"\t4`,
+        // Aggregate budgets aren't source files.
+        `"src/*.ts"\t"no-var"\t10`,
+      ].join("\n"),
+    )
+    const stats = SeatbeltStats.fromFiles([file], { pwd: "/test" })
+
+    assert.deepStrictEqual(stats.seatbeltFiles, ["/test/eslint.seatbelt.tsv"])
+    assert.deepStrictEqual(stats.total, row("total", 10, 3, 2))
+    assert.deepStrictEqual(stats.byRule, [
+      row("eqeqeq", 5, 2, 1),
+      row("no-var", 5, 2, 1),
+    ])
+    assert.deepStrictEqual(stats.byDirectory, [
+      row("lib", 4, 1, 1),
+      row("src", 6, 2, 2),
+    ])
+    assert.deepStrictEqual(stats.byFile, [
+      row("lib/c.ts", 4, 1, 1),
+      row("src/a.ts", 3, 1, 2),
+      row("src/b.ts", 3, 1, 1),
+    ])
+    assert.deepStrictEqual(stats.byOwner, [
+      row(UNOWNED, 9, 3, 2),
+      row("ui", 1, 1, 1),
+    ])
+  })
+
+  test("fromFiles() groups directories by directoryDepth", () => {
+    const file = SeatbeltFile.parse(
+      "/test/eslint.seatbelt.tsv",
+      [
+        `"packages/ui/src/a.ts"\t"no-var"\t1`,
+        `"packages/ui/test/b.ts"\t"no-var"\t2`,
+        `"packages/api/c.ts"\t"no-var"\t4`,
+      ].join("\n"),
+    )
+    const stats = SeatbeltStats.fromFiles([file], {
+      pwd: "/test",
+      directoryDepth: 2,
+    })
+    assert.deepStrictEqual(stats.byDirectory, [
+      row("packages/api", 4, 1, 1),
+      row("packages/ui", 3, 2, 1),
+    ])
+  })
+
+  test("sortRows() sorts counts descending and names ascending", () => {
+    const rows = [row("b", 3, 1, 2), row("a", 3, 2, 1), row("c", 5, 1, 1)]
+    const names = (rows: SeatbeltStatsRow[]) => rows.map(({ name }) => name)
+
+    assert.deepStrictEqual(names(SeatbeltStats.sortRows(rows, "name")), [
+      "a",
+      "b",
+      "c",
+    ])
+    assert.deepStrictEqual(names(SeatbeltStats.sortRows(rows, "allowed")), [
+      "c",
+      "a",
+      "b",
+    ])
+    assert.deepStrictEqual(names(SeatbeltStats.sortRows(rows, "files")), [
+      "a",
+      "b",
+      "c",
+    ])
+    assert.deepStrictEqual(names(SeatbeltStats.sortRows(rows, "rules", 1)), [
+      "b",
+    ])
+    assert.deepStrictEqual(names(SeatbeltStats.sortRows(rows, "allowed", 0)), [
+      "c",
+      "a",
+      "b",
+    ])
+    // The input isn't modified.
+    assert.deepStrictEqual(names(rows), ["b", "a", "c"])
+  })
+})
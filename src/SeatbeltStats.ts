@@ -0,0 +1,149 @@
+import path from "node:path"
+import { RuleId } from "./SeatbeltFile"
+import type { SeatbeltStore } from "./SeatbeltStore"
+
+/** Allowed error totals for one rule, directory, or source file. */
+export interface SeatbeltStatsRow {
+  name: string
+  /** Sum of max errors. */
+  allowed: number
+  /** Number of distinct source files with allowed errors. */
+  files: number
+  /** Number of distinct rules with allowed errors. */
+  rules: number
+}
+
+export interface SeatbeltStats {
+  seatbeltFiles: string[]
+  total: SeatbeltStatsRow
+  byRule: SeatbeltStatsRow[]
+  byDirectory: SeatbeltStatsRow[]
+  byFile: SeatbeltStatsRow[]
+  /** Grouped by the `owner` annotation of each entry. */
+  byOwner: SeatbeltStatsRow[]
+}
+
+/** Row name in `byOwner` for entries without an owner annotation. */
+export const UNOWNED = "(unowned)"
+
+export type SeatbeltStatsSortKey = "allowed" | "files" | "rules" | "name"
+
+export interface SeatbeltStatsOptions {
+  /** Source file names are reported relative to this directory. Default: `process.cwd()` */
+  pwd?: string
+  /**
+   * Group directories by their first `directoryDepth` path segments.
+   * Default: the full directory name.
+   */
+  directoryDepth?: number
+}
+
+class RowBuilder {
+  allowed = 0
+  files = new Set<string>()
+  rules = new Set<RuleId>()
+
+  add(filename: string, ruleId: RuleId, allowed: number) {
+    this.allowed += allowed
+    this.files.add(filename)
+    this.rules.add(ruleId)
+  }
+
+  build(name: string): SeatbeltStatsRow {
+    return {
+      name,
+      allowed: this.allowed,
+      files: this.files.size,
+      rules: this.rules.size,
+    }
+  }
+}
+
+function buildRows(builders: Map<string, RowBuilder>): SeatbeltStatsRow[] {
+  return Array.from(builders, ([name, builder]) => builder.build(name))
+}
+
+function getBuilder(builders: Map<string, RowBuilder>, key: string) {
+  let builder = builders.get(key)
+  if (!builder) {
+    builder = new RowBuilder()
+    builders.set(key, builder)
+  }
+  return builder
+}
+
+export const SeatbeltStats = {
+  fromFiles(
+    seatbeltFiles: Iterable<SeatbeltStore>,
+    options: SeatbeltStatsOptions = {},
+  ): SeatbeltStats {
+    const pwd = options.pwd ?? process.cwd()
+    const total = new RowBuilder()
+    const byRule = new Map<string, RowBuilder>()
+    const byDirectory = new Map<string, RowBuilder>()
+    const byFile = new Map<string, RowBuilder>()
+    const byOwner = new Map<string, RowBuilder>()
+    const filenames: string[] = []
+
+    for (const seatbeltFile of seatbeltFiles) {
+      filenames.push(seatbeltFile.filename)
+      for (const filename of seatbeltFile.filenames()) {
+        const maxErrors = seatbeltFile.getMaxErrors(filename)
+        if (!maxErrors) {
+          continue
+        }
+        const annotations = seatbeltFile.getAnnotations(filename)
+        const relativeFilename = path.relative(pwd, filename) || filename
+        const directory = truncateDirectory(
+          path.dirname(relativeFilename),
+          options.directoryDepth,
+        )
+        for (const [ruleId, allowed] of maxErrors) {
+          if (allowed === 0) {
+            continue
+          }
+          total.add(filename, ruleId, allowed)
+          getBuilder(byRule, ruleId).add(filename, ruleId, allowed)
+          getBuilder(byDirectory, directory).add(filename, ruleId, allowed)
+          getBuilder(byFile, relativeFilename).add(filename, ruleId, allowed)
+          const owner = annotations?.get(ruleId)?.owner ?? UNOWNED
+          getBuilder(byOwner, owner).add(filename, ruleId, allowed)
+        }
+      }
+    }
+
+    return {
+      seatbeltFiles: filenames,
+      total: total.build("total"),
+      byRule: SeatbeltStats.sortRows(buildRows(byRule), "name"),
+      byDirectory: SeatbeltStats.sortRows(buildRows(byDirectory), "name"),
+      byFile: SeatbeltStats.sortRows(buildRows(byFile), "name"),
+      byOwner: SeatbeltStats.sortRows(buildRows(byOwner), "name"),
+    }
+  },
+
+  /**
+   * Sort rows by `key`. Counts sort descending, names ascending. A positive
+   * `limit` keeps only the first rows.
+   */
+  sortRows(
+    rows: SeatbeltStatsRow[],
+    key: SeatbeltStatsSortKey,
+    limit = 0,
+  ): SeatbeltStatsRow[] {
+    const byName = (a: SeatbeltStatsRow, b: SeatbeltStatsRow) =>
+      a.name === b.name ? 0 : a.name < b.name ? -1 : 1
+    const sorted =
+      key === "name"
+        ? [...rows].sort(byName)
+        : [...rows].sort((a, b) => b[key] - a[key] || byName(a, b))
+    return limit > 0 ? sorted.slice(0, limit) : sorted
+  },
+} as const
+
+function truncateDirectory(directory: string, depth: number | undefined) {
+  if (depth === undefined || depth <= 0) {
+    return directory
+  }
+  return directory.split(path.sep).slice(0, depth).join(path.sep)
+}
@@ -0,0 +1,140 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { SeatbeltArgs, SeatbeltStorage } from "./SeatbeltConfig"
+import { SeatbeltFile } from "./SeatbeltFile"
+import { SeatbeltJsonFile } from "./SeatbeltJsonFile"
+import { SeatbeltSqliteFile } from "./SeatbeltSqliteFile"
+import { SeatbeltStore } from "./SeatbeltStore"
+
+const hasSqlite = Boolean(process.getBuiltinModule?.("node:sqlite"))
+
+describe("SeatbeltStore", () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "seatbelt-store-"),
+    )
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  test("infers storage from the file extension", () => {
+    assert.strictEqual(
+      SeatbeltArgs.inferStorage("/repo/eslint.seatbelt.tsv"),
+      "tsv",
+    )
+    assert.strictEqual(
+      SeatbeltArgs.inferStorage("/repo/eslint.seatbelt.json"),
+      "json",
+    )
+    assert.strictEqual(SeatbeltArgs.inferStorage("/repo/seatbelt.db"), "sqlite")
+    assert.ok(
+      SeatbeltStore.openSync(path.join(tmpDir, "a.json")) instanceof
+        SeatbeltJsonFile,
+    )
+    assert.ok(
+      SeatbeltStore.openSync(path.join(tmpDir, "a.json"), "sqlite") instanceof
+        SeatbeltSqliteFile,
+    )
+  })
+
+  const roundTrip = (storage: SeatbeltStorage, basename: string) => {
+    const filename = path.join(tmpDir, basename)
+    const sourceFile = path.join(tmpDir, "src/a.ts")
+    const args = SeatbeltArgs.fromConfig({ seatbeltFile: filename })
+    assert.strictEqual(args.storage, storage)
+
+    const store = SeatbeltStore.openSync(filename, args.storage)
+    store.updateMaxErrors(
+      sourceFile,
+      { ...args, allowIncreaseRules: "all" },
+      new Map([
+        ["no-var", 2],
+        ["eqeqeq", 1],
+      ]),
+    )
+    assert.deepStrictEqual(store.flushChanges(), { updated: true })
+
+    const read = SeatbeltStore.readSync(filename, args.storage)
+    assert.deepStrictEqual(Array.from(read.filenames()), [sourceFile])
+    assert.deepStrictEqual(
+      read.getMaxErrors(sourceFile),
+      new Map([
+        ["eqeqeq", 1],
+        ["no-var", 2],
+      ]),
+    )
+    assert.deepStrictEqual(read.toJSON(), store.toJSON())
+
+    store.updateMaxErrors(sourceFile, args, new Map([["no-var", 1]]))
+    store.flushChanges()
+    read.readSync()
+    assert.deepStrictEqual(
+      read.getMaxErrors(sourceFile),
+      new Map([["no-var", 1]]),
+    )
+  }
+
+  test("tsv round trip", () => {
+    roundTrip("tsv", "eslint.seatbelt.tsv")
+    assert.ok(
+      SeatbeltStore.openSync(
+        path.join(tmpDir, "eslint.seatbelt.tsv"),
+      ) instanceof SeatbeltFile,
+    )
+  })
+
+  test("json round trip", () => {
+    roundTrip("json", "eslint.seatbelt.json")
+    const json = JSON.parse(
+      fs.readFileSync(path.join(tmpDir, "eslint.seatbelt.json"), "utf8"),
+    )
+    assert.deepStrictEqual(json, { data: { "src/a.ts": { "no-var": 1 } } })
+  })
+
+  test(
+    "sqlite round trip",
+    { skip: !hasSqlite && "requires node:sqlite" },
+    () => {
+      roundTrip("sqlite", "eslint.seatbelt.db")
+    },
+  )
+
+  test(
+    "sqlite writes only the rows of changed files",
+    { skip: !hasSqlite && "requires node:sqlite" },
+    () => {
+      const filename = path.join(tmpDir, "eslint.seatbelt.db")
+      const a = path.join(tmpDir, "src/a.ts")
+      const b = path.join(tmpDir, "src/b.ts")
+      const args = SeatbeltArgs.fromConfig({ seatbeltFile: filename })
+      const increase = { ...args, allowIncreaseRules: "all" } as const
+      const setup = SeatbeltStore.openSync(filename)
+      setup.updateMaxErrors(a, increase, new Map([["no-var", 2]]))
+      setup.updateMaxErrors(b, increase, new Map([["no-var", 2]]))
+      setup.flushChanges()
+
+      // Neither store re-reads before flushing, yet both updates are kept.
+      const first = SeatbeltStore.readSync(filename)
+      const second = SeatbeltStore.readSync(filename)
+      first.updateMaxErrors(a, args, new Map([["no-var", 1]]))
+      second.removeFile(b, args)
+      first.flushChanges()
+      second.flushChanges()
+
+      const copy = path.join(tmpDir, "copy/eslint.seatbelt.db")
+      first.updateMaxErrors(a, args, new Map())
+      first.writeSync(copy)
+      assert.deepStrictEqual(SeatbeltStore.readSync(filename).toJSON().data, {
+        "src/a.ts": { "no-var": 1 },
+      })
+      assert.deepStrictEqual(SeatbeltStore.readSync(copy).toJSON().data, {})
+    },
+  )
+})
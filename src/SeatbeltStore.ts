@@ -0,0 +1,127 @@
+import { SeatbeltArgs, SeatbeltStorage } from "./SeatbeltConfig"
+import {
+  RuleId,
+  SeatbeltAggregateBudget,
+  SeatbeltAggregateViolation,
+  SeatbeltAnnotations,
+  SeatbeltFile,
+  SeatbeltFileJson,
+  SourceFileName,
+} from "./SeatbeltFile"
+import { SeatbeltJsonFile } from "./SeatbeltJsonFile"
+import { SeatbeltSqliteFile } from "./SeatbeltSqliteFile"
+
+/**
+ * Where the max errors allowed for each file are kept.
+ *
+ * The built-in stores extend `SeatbeltStoreBase`, which implements the
+ * counting and ratcheting on top of a few storage methods:
+ * {@link SeatbeltFile} stores tab-separated JSON, {@link SeatbeltJsonFile} a
+ * JSON object, and {@link SeatbeltSqliteFile} a SQLite table.
+ *
+ * Filenames passed to stores may be absolute, or relative to the store's
+ * directory. Aggregate budget patterns and rule caps are looked up as is.
+ */
+export interface SeatbeltStore {
+  /** Absolute path of the backing file. */
+  readonly filename: string
+  /** True if there are changes that {@link flushChanges} will write. */
+  changed: boolean
+  /**
+   * Replace the in-memory data with the stored data, to see updates from other
+   * processes. Unflushed changes are discarded.
+   */
+  readSync(): boolean
+  /** Source files with allowed errors, as absolute paths. */
+  filenames(): IterableIterator<SourceFileName>
+  getMaxErrors(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, number> | undefined
+  getExpiresAt(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, string> | undefined
+  getAnnotations(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, Readonly<SeatbeltAnnotations>> | undefined
+  getFingerprints(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, readonly string[]> | undefined
+  hasAggregateBudgets(): boolean
+  findAggregateBudget(
+    filename: SourceFileName,
+    ruleId: RuleId,
+  ): SeatbeltAggregateBudget | undefined
+  updateAggregateBudgets(args: SeatbeltArgs): SeatbeltAggregateViolation[]
+  getRuleCaps(): ReadonlyMap<RuleId, number> | undefined
+  updateRuleCaps(
+    args: SeatbeltArgs,
+    allowedTotals: ReadonlyMap<RuleId, number>,
+  ): SeatbeltAggregateViolation[]
+  /** Returns true if the file had entries and they were removed. */
+  removeFile(filename: SourceFileName, args: SeatbeltArgs): boolean
+  updateMaxErrors(
+    filename: SourceFileName,
+    args: SeatbeltArgs,
+    ruleToErrorCount: ReadonlyMap<RuleId, number>,
+    ruleToFingerprints?: ReadonlyMap<RuleId, readonly string[]>,
+  ): {
+    removedRules: Set<RuleId>
+    increasedRulesCount: number
+    decreasedRulesCount: number
+  }
+  /** Upgrade the stored format. Returns the previous format version. */
+  migrate(): number
+  /** Run `fn` while holding an exclusive lock on the backing file. */
+  withLockSync<T>(timeoutMs: number, fn: () => T): T
+  /** Write the data if it changed since the last read or flush. */
+  flushChanges(): { updated: boolean }
+  /**
+   * Write the data to `filename`, by default the backing file.
+   *
+   * Pass `filename` to write a copy elsewhere. Entries stay relative to this
+   * file's directory.
+   */
+  writeSync(filename?: string): void
+  toJSON(): SeatbeltFileJson
+  /** The key for `filename` in this store. */
+  toRelativePath(filename: string): SourceFileName
+  toAbsolutePath(filename: SourceFileName): string
+}
+
+export const SeatbeltStore = {
+  /**
+   * Read `filename` with the given storage, inferred from the extension by
+   * default.
+   */
+  readSync(
+    filename: string,
+    storage: SeatbeltStorage = SeatbeltArgs.inferStorage(filename),
+  ): SeatbeltStore {
+    switch (storage) {
+      case "tsv":
+        return SeatbeltFile.readSync(filename)
+      case "json":
+        return SeatbeltJsonFile.readSync(filename)
+      case "sqlite":
+        return SeatbeltSqliteFile.readSync(filename)
+    }
+  },
+
+  /**
+   * Like {@link SeatbeltStore.readSync}, but returns an empty store that will
+   * write to `filename` if it doesn't exist.
+   */
+  openSync(
+    filename: string,
+    storage: SeatbeltStorage = SeatbeltArgs.inferStorage(filename),
+  ): SeatbeltStore {
+    switch (storage) {
+      case "tsv":
+        return SeatbeltFile.openSync(filename)
+      case "json":
+        return SeatbeltJsonFile.openSync(filename)
+      case "sqlite":
+        return SeatbeltSqliteFile.openSync(filename)
+    }
+  },
+} as const
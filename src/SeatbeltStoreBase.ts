@@ -0,0 +1,699 @@
+import * as nodePath from "node:path"
+import {
+  formatFilename,
+  formatRuleId,
+  SEATBELT_FROZEN,
+  SEATBELT_KEEP,
+  SEATBELT_LOCK_TIMEOUT,
+  SeatbeltArgs,
+} from "./SeatbeltConfig"
+import type {
+  RuleId,
+  SeatbeltAggregateBudget,
+  SeatbeltAggregateViolation,
+  SeatbeltAnnotations,
+  SeatbeltFileJson,
+  SourceFileName,
+} from "./SeatbeltFile"
+import type { SeatbeltStore } from "./SeatbeltStore"
+import { appendErrorContext } from "./errorHanding"
+import { FileLock } from "./FileLock"
+import { matchFingerprints } from "./fingerprints"
+import { globToRegExp } from "./globs"
+import { normalizeSeatbeltPath, realpathOrResolve } from "./paths"
+
+/**
+ * Entries with this filename are repository-wide caps: the sum of allowed
+ * errors for the rule across all files in the seatbelt file may not exceed
+ * them. Unlike aggregate budgets they don't loosen per-file budgets.
+ */
+export const RULE_CAPS_FILENAME = "."
+
+const EXPIRY_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * The entries stored under one key: a source file, an aggregate pattern, or
+ * {@link RULE_CAPS_FILENAME}.
+ */
+export interface SeatbeltEntries {
+  maxErrors: ReadonlyMap<RuleId, number>
+  /** Expiry dates of the entries that have one. */
+  expiresAt: ReadonlyMap<RuleId, string>
+  /** Annotations of the entries that have any. */
+  annotations: ReadonlyMap<RuleId, Readonly<SeatbeltAnnotations>>
+  /** Fingerprints of the allowed errors, by rule. */
+  fingerprints: ReadonlyMap<RuleId, readonly string[]>
+}
+
+/**
+ * Implements {@link SeatbeltStore} on top of a few storage methods, so every
+ * storage format counts and ratchets errors the same way.
+ *
+ * Entries are read from storage by key when first needed, and kept until the
+ * next {@link readSync}. Changes are kept in memory until
+ * {@link flushChanges}, which lets subclasses write only the keys in
+ * {@link changedKeys}.
+ */
+export abstract class SeatbeltStoreBase implements SeatbeltStore {
+  /** The lock file used by {@link withLockSync} for `filename`. */
+  static lockFilename(filename: string): string {
+    return `${nodePath.resolve(filename)}.lock`
+  }
+
+  static isAggregatePattern(filename: SourceFileName): boolean {
+    return filename.includes("*")
+  }
+
+  /** False for aggregate budget patterns and rule caps. */
+  static isSourceFilename(filename: SourceFileName): boolean {
+    return (
+      filename !== RULE_CAPS_FILENAME &&
+      !SeatbeltStoreBase.isAggregatePattern(filename)
+    )
+  }
+
+  static isValidExpiryDate(date: string): boolean {
+    if (!EXPIRY_DATE_REGEX.test(date)) {
+      return false
+    }
+    const parsed = new Date(`${date}T00:00:00Z`)
+    // Out of range dates like 2024-13-45 are invalid, 2024-02-30 rolls over.
+    return (
+      !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    )
+  }
+
+  /**
+   * Entries expire at the end of their deadline day, in UTC so that every
+   * machine agrees.
+   */
+  static isExpired(expiresAt: string, now: Date = new Date()): boolean {
+    return expiresAt < now.toISOString().slice(0, 10)
+  }
+
+  public changed = false
+  public readonly filename: string
+  protected readonly dirname: string
+  /**
+   * Entries read from storage or changed since the last read, by key.
+   * `undefined` if there are none, or they were removed.
+   */
+  private readonly entries = new Map<
+    SourceFileName,
+    SeatbeltEntries | undefined
+  >()
+  /** Keys changed since the last read or flush. */
+  protected readonly changedKeys = new Set<SourceFileName>()
+  /**
+   * Error counts seen during this process, by relative filename. Unlike the
+   * stored counts these are recorded even when frozen, and survive {@link readSync}.
+   */
+  private readonly observedErrorCounts = new Map<
+    SourceFileName,
+    ReadonlyMap<RuleId, number>
+  >()
+  /**
+   * Aggregate budget patterns, cached since every linted file looks them up.
+   * Cleared when a pattern changes and by {@link readSync}.
+   */
+  private aggregatePatternsCache: SourceFileName[] | undefined
+  /** `dirname` with symlinks resolved. Cleared by {@link readSync}. */
+  private realDirname: string | undefined
+
+  constructor(filename: string) {
+    this.filename = nodePath.resolve(filename)
+    this.dirname = nodePath.dirname(this.filename)
+  }
+
+  /** The stored entries for `key`, ignoring changes in memory. */
+  protected abstract readEntries(
+    key: SourceFileName,
+  ): SeatbeltEntries | undefined
+
+  /** Keys with stored entries, ignoring changes in memory. */
+  protected abstract readKeys(): Iterable<SourceFileName>
+
+  /**
+   * Re-read the stored data. Returns true if it should be written back even
+   * without changes, for example to clean up merge conflicts.
+   */
+  protected abstract reloadSync(): boolean
+
+  abstract writeSync(filename?: string): void
+
+  /**
+   * Upgrade the stored data to the current format version. Returns the
+   * previous format version.
+   */
+  abstract migrate(): number
+
+  /** True if `key` was read or changed since the last read. */
+  protected hasLoadedEntries(key: SourceFileName): boolean {
+    return this.entries.has(key)
+  }
+
+  protected getEntries(key: SourceFileName): SeatbeltEntries | undefined {
+    if (this.entries.has(key)) {
+      return this.entries.get(key)
+    }
+    const entries = this.readEntries(key)
+    this.entries.set(key, entries)
+    return entries
+  }
+
+  /** Replace the entries of `key`, or remove them if `entries` is undefined. */
+  protected setEntries(
+    key: SourceFileName,
+    entries: SeatbeltEntries | undefined,
+  ) {
+    this.entries.set(key, entries)
+    this.changedKeys.add(key)
+    this.changed = true
+    if (SeatbeltStoreBase.isAggregatePattern(key)) {
+      this.aggregatePatternsCache = undefined
+    }
+  }
+
+  /** Keys with entries, including changes in memory. */
+  protected keys(): SourceFileName[] {
+    const keys = new Set(this.readKeys())
+    this.entries.forEach((entries, key) => {
+      if (entries) {
+        keys.add(key)
+      } else {
+        keys.delete(key)
+      }
+    })
+    return Array.from(keys)
+  }
+
+  /** Source files with allowed errors. Excludes aggregate budgets and rule caps. */
+  *filenames(): IterableIterator<SourceFileName> {
+    for (const key of this.keys()) {
+      if (SeatbeltStoreBase.isSourceFilename(key)) {
+        yield this.toAbsolutePath(key)
+      }
+    }
+  }
+
+  hasAggregateBudgets(): boolean {
+    return this.aggregatePatterns().length > 0
+  }
+
+  /**
+   * The first aggregate budget in the file that matches `filename` and
+   * `ruleId`.
+   */
+  findAggregateBudget(
+    filename: SourceFileName,
+    ruleId: RuleId,
+  ): SeatbeltAggregateBudget | undefined {
+    const relativeFilename = this.toRelativePath(filename)
+    for (const pattern of this.aggregatePatterns()) {
+      const maxErrors = this.getMaxErrors(pattern)?.get(ruleId)
+      if (
+        maxErrors !== undefined &&
+        getAggregateRegExp(pattern).test(relativeFilename)
+      ) {
+        return { pattern, ruleId, maxErrors }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Compare each aggregate budget against the sum of errors in matching
+   * files, using counts observed by {@link updateMaxErrors} during this run
+   * and stored counts for files that weren't linted. Only budgets matching
+   * at least one linted file are checked.
+   *
+   * Budgets are lowered when the sum decreased, unless frozen, and raised for
+   * rules in `allowIncreaseRules`. Returns the budgets that are violated.
+   */
+  updateAggregateBudgets(args: SeatbeltArgs): SeatbeltAggregateViolation[] {
+    const violations: SeatbeltAggregateViolation[] = []
+    const sourceFiles = new Set(
+      [...this.keys(), ...this.observedErrorCounts.keys()].filter(
+        SeatbeltStoreBase.isSourceFilename,
+      ),
+    )
+    for (const pattern of this.aggregatePatterns()) {
+      const regExp = getAggregateRegExp(pattern)
+      const matching = Array.from(sourceFiles).filter((filename) =>
+        regExp.test(filename),
+      )
+      if (
+        !matching.some((filename) => this.observedErrorCounts.has(filename))
+      ) {
+        continue
+      }
+
+      const budgets = this.getMaxErrors(pattern) ?? new Map<RuleId, number>()
+      const updated = new Map(budgets)
+      budgets.forEach((maxErrorCount, ruleId) => {
+        const keep = SeatbeltArgs.ruleSetHas(args.keepRules, ruleId)
+        let errorCount = 0
+        for (const filename of matching) {
+          const observed = this.observedErrorCounts.get(filename)
+          const count =
+            observed?.get(ruleId) ??
+            (observed && !keep
+              ? 0
+              : (this.getMaxErrors(filename)?.get(ruleId) ?? 0))
+          errorCount += count
+        }
+        if (errorCount === maxErrorCount) {
+          return
+        }
+
+        const budget = { pattern, ruleId, maxErrors: maxErrorCount }
+        const increase =
+          errorCount > maxErrorCount &&
+          SeatbeltArgs.ruleSetHas(args.allowIncreaseRules, ruleId)
+        if (errorCount > maxErrorCount && !increase) {
+          violations.push({ ...budget, errorCount, kind: "exceeded" })
+          return
+        }
+        if (args.frozen) {
+          if (!increase) {
+            violations.push({ ...budget, errorCount, kind: "frozen" })
+          }
+          return
+        }
+
+        SeatbeltArgs.verboseLog(
+          args,
+          () =>
+            `${pattern}: ${formatRuleId(ruleId)}: update aggregate max errors ${maxErrorCount} -> ${errorCount}`,
+        )
+        if (errorCount === 0 && !keep) {
+          updated.delete(ruleId)
+        } else {
+          updated.set(ruleId, errorCount)
+        }
+      })
+
+      if (!args.frozen && !isSameMaxErrors(budgets, updated)) {
+        const entries = this.getEntries(pattern)
+        this.setEntries(
+          pattern,
+          updated.size === 0 || !entries
+            ? undefined
+            : { ...entries, maxErrors: updated },
+        )
+      }
+    }
+    return violations
+  }
+
+  getRuleCaps(): ReadonlyMap<RuleId, number> | undefined {
+    return this.getMaxErrors(RULE_CAPS_FILENAME)
+  }
+
+  /**
+   * Compare rule caps against `allowedTotals`, the sum of allowed errors per
+   * rule. Caps are lowered to the total when it decreased, unless frozen.
+   * Returns the caps that are exceeded.
+   */
+  updateRuleCaps(
+    args: SeatbeltArgs,
+    allowedTotals: ReadonlyMap<RuleId, number>,
+  ): SeatbeltAggregateViolation[] {
+    const entries = this.getEntries(RULE_CAPS_FILENAME)
+    if (!entries) {
+      return []
+    }
+    const caps = entries.maxErrors
+    const violations: SeatbeltAggregateViolation[] = []
+    const updated = new Map(caps)
+    caps.forEach((maxErrorCount, ruleId) => {
+      const errorCount = allowedTotals.get(ruleId) ?? 0
+      if (errorCount > maxErrorCount) {
+        violations.push({
+          pattern: RULE_CAPS_FILENAME,
+          ruleId,
+          maxErrors: maxErrorCount,
+          errorCount,
+          kind: "exceeded",
+        })
+      } else if (errorCount < maxErrorCount) {
+        SeatbeltArgs.verboseLog(args, () =>
+          args.frozen
+            ? `${formatRuleId(ruleId)}: ${SEATBELT_FROZEN}: didn't update cap ${maxErrorCount} -> ${errorCount}`
+            : `${formatRuleId(ruleId)}: update cap ${maxErrorCount} -> ${errorCount}`,
+        )
+        updated.set(ruleId, errorCount)
+      }
+    })
+    if (!args.frozen && !isSameMaxErrors(caps, updated)) {
+      this.setEntries(RULE_CAPS_FILENAME, { ...entries, maxErrors: updated })
+    }
+    return violations
+  }
+
+  private aggregatePatterns(): SourceFileName[] {
+    this.aggregatePatternsCache ??= this.keys().filter(
+      SeatbeltStoreBase.isAggregatePattern,
+    )
+    return this.aggregatePatternsCache
+  }
+
+  getMaxErrors(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, number> | undefined {
+    return this.getEntries(this.toRelativePath(filename))?.maxErrors
+  }
+
+  /** Expiry dates of the entries for `filename` that have one. */
+  getExpiresAt(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, string> | undefined {
+    return this.getEntries(this.toRelativePath(filename))?.expiresAt
+  }
+
+  /** Annotations of the entries for `filename` that have any. */
+  getAnnotations(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, Readonly<SeatbeltAnnotations>> | undefined {
+    return this.getEntries(this.toRelativePath(filename))?.annotations
+  }
+
+  /** Fingerprints of the allowed errors for `filename`, by rule. */
+  getFingerprints(
+    filename: SourceFileName,
+  ): ReadonlyMap<RuleId, readonly string[]> | undefined {
+    return this.getEntries(this.toRelativePath(filename))?.fingerprints
+  }
+
+  removeFile(filename: SourceFileName, args: SeatbeltArgs) {
+    const relativeFilename = this.toRelativePath(filename)
+    if (!this.getEntries(relativeFilename)) {
+      return false
+    }
+
+    SeatbeltArgs.verboseLog(args, () =>
+      args.frozen
+        ? `${formatFilename(filename)}: ${SEATBELT_FROZEN}: didn't remove max errors`
+        : `${formatFilename(filename)}: remove max errors`,
+    )
+
+    if (args.frozen) {
+      return false
+    }
+
+    this.setEntries(relativeFilename, undefined)
+    return true
+  }
+
+  /**
+   * Update the max errors of `filename` to the counts found by ESLint.
+   *
+   * In fingerprint mode, pass the fingerprints of the errors as well. For
+   * entries with fingerprints, only errors matching a stored fingerprint
+   * count towards the budget, and fingerprints of fixed errors are removed.
+   * Count-only entries get fingerprints when the file is within budget.
+   */
+  updateMaxErrors(
+    filename: SourceFileName,
+    args: SeatbeltArgs,
+    ruleToErrorCount: ReadonlyMap<RuleId, number>,
+    ruleToFingerprints?: ReadonlyMap<RuleId, readonly string[]>,
+  ) {
+    const removedRules = new Set<RuleId>()
+    let increasedRulesCount = 0
+    let decreasedRulesCount = 0
+    const relativeFilename = this.toRelativePath(filename)
+    const entries = this.getEntries(relativeFilename)
+    const storedFingerprints = entries?.fingerprints
+    // Work on a copy so frozen runs leave the stored counts untouched.
+    const maxErrors = new Map<RuleId, number>(entries?.maxErrors)
+    const fingerprints = new Map<RuleId, readonly string[]>(
+      entries?.fingerprints,
+    )
+    this.observedErrorCounts.set(relativeFilename, new Map(ruleToErrorCount))
+
+    const allowedErrorCounts = new Map(ruleToErrorCount)
+    ruleToFingerprints?.forEach((current, ruleId) => {
+      const stored = storedFingerprints?.get(ruleId)
+      const allowIncrease =
+        SeatbeltArgs.ruleSetHas(args.allowIncreaseRules, ruleId) ||
+        this.findAggregateBudget(filename, ruleId) !== undefined
+      if (stored && !allowIncrease) {
+        // New errors are reported by the processor and not added.
+        const matched = matchFingerprints(current, stored)
+        allowedErrorCounts.set(ruleId, matched.length)
+        fingerprints.set(ruleId, matched)
+      } else if (
+        allowIncrease ||
+        current.length <= (maxErrors.get(ruleId) ?? 0)
+      ) {
+        fingerprints.set(ruleId, [...current].sort())
+      }
+    })
+
+    allowedErrorCounts.forEach((errorCount, ruleId) => {
+      const maxErrorCount = maxErrors.get(ruleId) ?? 0
+      if (errorCount === maxErrorCount) {
+        return
+      }
+
+      if (
+        errorCount < maxErrorCount ||
+        SeatbeltArgs.ruleSetHas(args.allowIncreaseRules, ruleId) ||
+        // Checked against the aggregate budget at the end of the run instead.
+        this.findAggregateBudget(filename, ruleId)
+      ) {
+        SeatbeltArgs.verboseLog(args, () =>
+          args.frozen
+            ? `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_FROZEN}: didn't update max errors ${maxErrorCount} -> ${errorCount}`
+            : `${formatFilename(filename)}: ${formatRuleId(ruleId)}: update max errors ${maxErrorCount} -> ${errorCount}`,
+        )
+        maxErrors.set(ruleId, errorCount)
+        if (errorCount > maxErrorCount) {
+          increasedRulesCount++
+        } else {
+          decreasedRulesCount++
+        }
+      }
+    })
+
+    if (args.verbose || args.keepRules !== "all") {
+      maxErrors.forEach((maxErrorCount, ruleId) => {
+        const shouldRemove =
+          maxErrorCount === 0 || !allowedErrorCounts.has(ruleId)
+
+        if (!shouldRemove) {
+          return
+        }
+
+        if (SeatbeltArgs.ruleSetHas(args.keepRules, ruleId)) {
+          SeatbeltArgs.verboseLog(
+            args,
+            () =>
+              `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_KEEP}: didn't update max errors ${maxErrorCount} -> ${0}`,
+          )
+          return
+        }
+
+        SeatbeltArgs.verboseLog(args, () =>
+          args.frozen
+            ? `${formatFilename(filename)}: ${formatRuleId(ruleId)}: ${SEATBELT_FROZEN}: didn't update max errors ${maxErrorCount} -> ${0}`
+            : `${formatFilename(filename)}: ${formatRuleId(ruleId)}: update max errors ${maxErrorCount} -> ${0}`,
+        )
+
+        maxErrors.delete(ruleId)
+        removedRules.add(ruleId)
+      })
+    }
+
+    // Fingerprints no longer match the count once it changes without them.
+    fingerprints.forEach((ruleFingerprints, ruleId) => {
+      if (maxErrors.get(ruleId) !== ruleFingerprints.length) {
+        fingerprints.delete(ruleId)
+      }
+    })
+    const fingerprintsChanged = !isSameFingerprints(
+      storedFingerprints ?? new Map(),
+      fingerprints,
+    )
+
+    const changed =
+      increasedRulesCount > 0 ||
+      decreasedRulesCount > 0 ||
+      removedRules.size > 0 ||
+      fingerprintsChanged
+    if (changed && !args.frozen) {
+      const expiresAt = new Map(entries?.expiresAt)
+      const annotations = new Map(entries?.annotations)
+      removedRules.forEach((ruleId) => {
+        expiresAt.delete(ruleId)
+        annotations.delete(ruleId)
+      })
+      this.setEntries(relativeFilename, {
+        maxErrors,
+        expiresAt,
+        annotations,
+        fingerprints,
+      })
+    }
+
+    return { removedRules, increasedRulesCount, decreasedRulesCount }
+  }
+
+  readSync() {
+    this.entries.clear()
+    this.changedKeys.clear()
+    this.aggregatePatternsCache = undefined
+    this.realDirname = undefined
+    this.changed = this.reloadSync()
+    return true
+  }
+
+  /**
+   * Run `fn` while holding an exclusive lock on the seatbelt file so that
+   * concurrent ESLint processes don't lose each other's updates. `fn` should
+   * call {@link readSync} first to see updates from other processes.
+   */
+  withLockSync<T>(timeoutMs: number, fn: () => T): T {
+    const lock = new FileLock(SeatbeltStoreBase.lockFilename(this.filename))
+    try {
+      lock.waitLock(timeoutMs)
+    } catch (e) {
+      appendErrorContext(
+        e,
+        `Another ESLint process may be updating the seatbelt file. If none is running, delete \`${lock.filename}\`.`,
+      )
+      appendErrorContext(
+        e,
+        `To wait longer, set lockTimeout in ESLint settings or ${SEATBELT_LOCK_TIMEOUT}.`,
+      )
+      throw e
+    }
+    try {
+      return fn()
+    } finally {
+      lock.unlock()
+    }
+  }
+
+  flushChanges() {
+    if (this.changed) {
+      this.writeSync()
+      this.changed = false
+      this.changedKeys.clear()
+      return { updated: true }
+    }
+    return { updated: false }
+  }
+
+  toJSON(): SeatbeltFileJson {
+    const data: SeatbeltFileJson["data"] = {}
+    const expiresAt: NonNullable<SeatbeltFileJson["expiresAt"]> = {}
+    const annotations: NonNullable<SeatbeltFileJson["annotations"]> = {}
+    const fingerprints: NonNullable<SeatbeltFileJson["fingerprints"]> = {}
+    for (const key of this.keys()) {
+      const entries = this.getEntries(key)
+      if (!entries) {
+        continue
+      }
+      data[key] = Object.fromEntries(entries.maxErrors)
+      if (entries.expiresAt.size > 0) {
+        expiresAt[key] = Object.fromEntries(entries.expiresAt)
+      }
+      if (entries.annotations.size > 0) {
+        annotations[key] = Object.fromEntries(entries.annotations)
+      }
+      if (entries.fingerprints.size > 0) {
+        fingerprints[key] = Object.fromEntries(
+          Array.from(entries.fingerprints, ([ruleId, ruleFingerprints]) => [
+            ruleId,
+            [...ruleFingerprints],
+          ]),
+        )
+      }
+    }
+    return {
+      filename: this.filename,
+      data,
+      ...(Object.keys(expiresAt).length > 0 && { expiresAt }),
+      ...(Object.keys(annotations).length > 0 && { annotations }),
+      ...(Object.keys(fingerprints).length > 0 && { fingerprints }),
+    }
+  }
+
+  /**
+   * The key for `filename` in this file: relative to the seatbelt file with
+   * symlinks resolved, normalized by {@link normalizeSeatbeltPath}. Aggregate
+   * patterns and rule caps are returned as is.
+   */
+  toRelativePath(filename: string) {
+    if (!SeatbeltStoreBase.isSourceFilename(filename)) {
+      return filename
+    }
+    if (!nodePath.isAbsolute(filename)) {
+      return normalizeSeatbeltPath(filename)
+    }
+    this.realDirname ??= realpathOrResolve(this.dirname)
+    return normalizeSeatbeltPath(
+      nodePath.relative(this.realDirname, realpathOrResolve(filename)),
+    )
+  }
+
+  toAbsolutePath(filename: string) {
+    if (nodePath.isAbsolute(filename)) {
+      return filename
+    }
+    return nodePath.resolve(this.dirname, filename)
+  }
+}
+
+/** Build {@link SeatbeltEntries} from the plain objects of {@link SeatbeltFileJson}. */
+export function entriesFromJSON(
+  json: Omit<SeatbeltFileJson, "filename">,
+  key: SourceFileName,
+): SeatbeltEntries | undefined {
+  const maxErrors = json.data[key]
+  if (!maxErrors) {
+    return undefined
+  }
+  return {
+    maxErrors: new Map(Object.entries(maxErrors)),
+    expiresAt: new Map(Object.entries(json.expiresAt?.[key] ?? {})),
+    annotations: new Map(Object.entries(json.annotations?.[key] ?? {})),
+    fingerprints: new Map(Object.entries(json.fingerprints?.[key] ?? {})),
+  }
+}
+
+const aggregateRegExpCache = new Map<string, RegExp>()
+
+function getAggregateRegExp(pattern: string): RegExp {
+  let regExp = aggregateRegExpCache.get(pattern)
+  if (!regExp) {
+    regExp = globToRegExp(pattern)
+    aggregateRegExpCache.set(pattern, regExp)
+  }
+  return regExp
+}
+
+function isSameMaxErrors(
+  a: ReadonlyMap<RuleId, number>,
+  b: ReadonlyMap<RuleId, number>,
+) {
+  return (
+    a.size === b.size &&
+    Array.from(a).every(([ruleId, count]) => b.get(ruleId) === count)
+  )
+}
+
+function isSameFingerprints(
+  a: ReadonlyMap<RuleId, readonly string[]>,
+  b: ReadonlyMap<RuleId, readonly string[]>,
+) {
+  return (
+    a.size === b.size &&
+    Array.from(a).every(
+      ([ruleId, fingerprints]) =>
+        JSON.stringify(b.get(ruleId)) === JSON.stringify(fingerprints),
+    )
+  )
+}
@@ -3,4 +3,11 @@
 export * from "./FileLock"
 export * from "./SeatbeltConfig"
 export * from "./SeatbeltFile"
+export * from "./SeatbeltJsonFile"
+export * from "./SeatbeltMessage"
+export * from "./SeatbeltSqliteFile"
+export * from "./SeatbeltStore"
+export * from "./SeatbeltStoreBase"
 export * from "./jsonSchema/SeatbeltConfigSchema"
+export * from "./messageLocales"
+export * from "./wrapProcessor"
@@ -0,0 +1,133 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import { spawn } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+
+describe("eslint-seatbelt exec mode", () => {
+  let tmpDir: string
+  let stub: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-command-")),
+    )
+    // Prints its arguments and SEATBELT_* variables, then exits or dies as
+    // told by STUB_EXIT.
+    stub = path.join(tmpDir, "stub.js")
+    fs.writeFileSync(
+      stub,
+      [
+        `#!${process.execPath}`,
+        `const env = Object.fromEntries(`,
+        `  Object.entries(process.env).filter(([key]) => key.startsWith("SEATBELT_")),`,
+        `)`,
+        `console.log(JSON.stringify({ argv: process.argv.slice(2), env }))`,
+        `const exit = process.env.STUB_EXIT ?? "0"`,
+        `if (exit.startsWith("SIG")) process.kill(process.pid, exit)`,
+        `else process.exit(Number(exit))`,
+      ].join("\n"),
+    )
+    fs.chmodSync(stub, 0o755)
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  function runCommand(args: string[], env: NodeJS.ProcessEnv = {}) {
+    const parentEnv = { ...process.env }
+    for (const key of Object.keys(parentEnv)) {
+      if (key.startsWith("SEATBELT_")) {
+        delete parentEnv[key]
+      }
+    }
+    const child = spawn(
+      process.execPath,
+      [
+        "--require",
+        require.resolve("tsx/cjs"),
+        path.join(__dirname, "command.ts"),
+        ...args,
+      ],
+      { cwd: tmpDir, env: { ...parentEnv, ...env } },
+    )
+    let stdout = ""
+    let stderr = ""
+    child.stdout.on("data", (data) => (stdout += data))
+    child.stderr.on("data", (data) => (stderr += data))
+    return new Promise<{
+      code: number | null
+      signal: NodeJS.Signals | null
+      stdout: string
+      stderr: string
+    }>((resolve, reject) => {
+      child.on("error", reject)
+      child.on("close", (code, signal) =>
+        resolve({ code, signal, stdout, stderr }),
+      )
+    })
+  }
+
+  async function runStub(args: string[], env: NodeJS.ProcessEnv = {}) {
+    const { code, stdout, stderr } = await runCommand(
+      ["--exec", stub, ...args],
+      env,
+    )
+    assert.strictEqual(code, 0, stderr)
+    return JSON.parse(stdout) as {
+      argv: string[]
+      env: Record<string, string>
+    }
+  }
+
+  test("exports only config values that differ from the environment", async () => {
+    assert.deepStrictEqual((await runStub([])).env, {})
+    assert.deepStrictEqual(
+      (
+        await runStub(["--frozen", "--keepRules", "no-var", "eqeqeq"], {
+          SEATBELT_FROZEN: "yes",
+        })
+      ).env,
+      {
+        // Inherited as is, not exported again as "1".
+        SEATBELT_FROZEN: "yes",
+        SEATBELT_KEEP: "no-var eqeqeq",
+      },
+    )
+  })
+
+  test("passes the arguments after -- to the command", async () => {
+    assert.deepStrictEqual(
+      (await runStub(["--frozen", "--", "--fix", "src/"])).argv,
+      ["--fix", "src/"],
+    )
+    assert.deepStrictEqual((await runStub(["src/"])).argv, ["src/"])
+  })
+
+  test("exits with the exit code of the command", async () => {
+    const { code, signal } = await runCommand(["--exec", stub], {
+      STUB_EXIT: "3",
+    })
+    assert.strictEqual(code, 3)
+    assert.strictEqual(signal, null)
+  })
+
+  test("dies from the signal that killed the command", async () => {
+    const { code, signal } = await runCommand(["--exec", stub], {
+      STUB_EXIT: "SIGTERM",
+    })
+    assert.strictEqual(code, null)
+    assert.strictEqual(signal, "SIGTERM")
+  })
+
+  test("exits with code 127 if the command is missing", async () => {
+    const { code, stderr } = await runCommand([
+      "--exec",
+      path.join(tmpDir, "missing"),
+    ])
+    assert.strictEqual(code, 127)
+    assert.match(stderr, /failed to run `.*missing`/)
+  })
+})
@@ -1,16 +1,31 @@
 #!/usr/bin/env -S pnpm exec tsx
 
+import { spawn } from "node:child_process"
 import {
   logStderr,
-  SeatbeltArgs,
   SeatbeltConfig,
-  SeatbeltConfigWithPwd,
+  SeatbeltEnv,
+  SeatbeltStorage,
+  SeatbeltAllowedSeverity,
 } from "./SeatbeltConfig"
-import { parse } from "ts-command-line-args"
+import { SeatbeltLocale } from "./messageLocales"
+import { parse, StopParseOptions } from "ts-command-line-args"
 import { SeatbeltConfigSchema } from "./jsonSchema/SeatbeltConfigSchema"
 import { name, version } from "../package.json"
+import { expiryCommand } from "./commands/expiry"
+import { statsCommand } from "./commands/stats"
+import {
+  installMergeDriverCommand,
+  mergeDriverCommand,
+} from "./commands/mergeDriver"
+import { unlockCommand } from "./commands/unlock"
+import { migrateCommand } from "./commands/migrate"
+
+/** Settings that can't be expressed as command-line flags. */
+type ConfigOnlyKeys = "seatbeltFiles" | "messages"
 
-export interface SeatbeltCliConfig extends SeatbeltConfig {
+export interface SeatbeltCliConfig
+  extends Omit<SeatbeltConfig, ConfigOnlyKeys> {
   /** Paths are relative to this directory. Default: `process.cwd()` */
   pwd?: string
   /** Print the version and exit */
@@ -21,26 +36,42 @@ export interface SeatbeltCliConfig extends SeatbeltConfig {
   help?: boolean
 }
 
-const SHOW_CONFIG_KEYS: Record<keyof SeatbeltConfig, true> = {
+const SHOW_CONFIG_KEYS: Record<
+  Exclude<keyof SeatbeltConfig, ConfigOnlyKeys>,
+  true
+> = {
   seatbeltFile: true,
   keepRules: true,
   allowIncreaseRules: true,
   frozen: true,
+  frozenOutput: true,
   disable: true,
+  threadsafe: true,
+  fingerprints: true,
+  dryRun: true,
+  verbose: true,
+  root: true,
+  lockTimeout: true,
+  storage: true,
+  allowedSeverity: true,
+  messageSuffix: true,
+  locale: true,
 }
 
 const ZERO_WIDTH_SPACE = "\u200B"
 
 function parseArgs() {
-  const fallback = SeatbeltConfig.fromFallbackEnv(process.env as any)
-  const overrides = SeatbeltConfig.fromEnvOverrides(process.env as any)
-  const env = { ...fallback, ...overrides }
+  // Defaults come only from explicit SEATBELT_* variables. Fallbacks like
+  // `CI` are left for the child to apply so ESLint config can still override them.
+  const env: SeatbeltCliConfig = SeatbeltConfig.fromEnvOverrides(
+    process.env as SeatbeltEnv,
+  )
   const escapeForChalk = (s: string) =>
     s
       .replaceAll("{", "\\{")
       .replaceAll("}", "\\}")
       .replaceAll(/^(\s)/gm, (match) => `${ZERO_WIDTH_SPACE}${match}`)
-  return parse<SeatbeltCliConfig>(
+  const argsConfig = parse<SeatbeltCliConfig, StopParseOptions>(
     {
       pwd: {
         type: String,
@@ -84,6 +115,14 @@ function parseArgs() {
         defaultValue: env.frozen,
         optional: true,
       },
+      frozenOutput: {
+        type: String,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.frozenOutput.description,
+        ),
+        defaultValue: env.frozenOutput,
+        optional: true,
+      },
       disable: {
         type: Boolean,
         description: escapeForChalk(
@@ -100,6 +139,22 @@ function parseArgs() {
         defaultValue: env.threadsafe,
         optional: true,
       },
+      fingerprints: {
+        type: Boolean,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.fingerprints.description,
+        ),
+        defaultValue: env.fingerprints,
+        optional: true,
+      },
+      dryRun: {
+        type: Boolean,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.dryRun.description,
+        ),
+        defaultValue: env.dryRun,
+        optional: true,
+      },
       verbose: {
         type: Boolean,
         description: escapeForChalk(
@@ -116,6 +171,47 @@ function parseArgs() {
         defaultValue: env.root,
         optional: true,
       },
+      lockTimeout: {
+        type: Number,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.lockTimeout.description,
+        ),
+        defaultValue: env.lockTimeout,
+        optional: true,
+      },
+      storage: {
+        type: parseStorage,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.storage.description,
+        ),
+        defaultValue: env.storage,
+        optional: true,
+      },
+      allowedSeverity: {
+        type: parseAllowedSeverity,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.allowedSeverity.description,
+        ),
+        defaultValue: env.allowedSeverity,
+        optional: true,
+      },
+      messageSuffix: {
+        // Defaults to true, so take a value like `--messageSuffix 0`.
+        type: parseBoolean,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.messageSuffix.description,
+        ),
+        defaultValue: env.messageSuffix,
+        optional: true,
+      },
+      locale: {
+        type: parseLocale,
+        description: escapeForChalk(
+          SeatbeltConfigSchema.properties.locale.description,
+        ),
+        defaultValue: env.locale,
+        optional: true,
+      },
       version: {
         type: Boolean,
         description: "Print the version and exit",
@@ -139,35 +235,186 @@ function parseArgs() {
       processExitCode: 2,
       showHelpWhenArgsMissing: true,
       helpArg: "help",
+      stopAtFirstUnknown: true,
       headerContentSections: [
         {
           header: name,
           content: `Turns command-line arguments into ${name} environment variables, then call 'eslint' or another command with them.`,
         },
+        {
+          header: "Commands",
+          content: [
+            `${name} stats                  Print allowed error totals without running ESLint`,
+            `${name} expiry                 List expired and soon to expire seatbelt entries`,
+            `${name} merge-driver           Git merge driver for seatbelt files`,
+            `${name} install-merge-driver   Register the merge driver in .git/config and .gitattributes`,
+            `${name} unlock                 Remove a lock left behind by a crashed ESLint process`,
+            `${name} migrate                Rewrite seatbelt files in the current format version`,
+            `${name} <cmd> --help for command options`,
+          ],
+        },
+        {
+          header: "Usage",
+          content: [
+            `$ ${name} [options] [--] [eslint arguments...]`,
+            `$ ${name} --frozen -- src/ --max-warnings 0`,
+            `$ ${name} --allowIncreaseRules ALL --exec ./node_modules/.bin/eslint -- --fix`,
+          ],
+        },
       ],
     },
   )
+  return { argsConfig, env }
+}
+
+/**
+ * Build the environment for the child command.
+ *
+ * The child inherits our environment and parses it the same way we did, so
+ * only config values that differ from what the environment already says need
+ * to be exported.
+ */
+function argsConfigToEnv(
+  argsConfig: SeatbeltCliConfig,
+  env: SeatbeltCliConfig,
+): SeatbeltEnv {
+  const changed: SeatbeltConfig & { pwd?: string } = {}
+  if (argsConfig.pwd !== env.pwd) {
+    changed.pwd = argsConfig.pwd
+  }
+  for (const key of Object.keys(SHOW_CONFIG_KEYS) as Array<
+    keyof typeof SHOW_CONFIG_KEYS
+  >) {
+    const value = argsConfig[key]
+    if (value === undefined || isSameConfigValue(value, env[key])) {
+      continue
+    }
+    Object.assign(changed, { [key]: value })
+  }
+  return SeatbeltEnv.fromConfig(changed)
+}
+
+function parseStorage(value: string): SeatbeltStorage {
+  const storage = SeatbeltEnv.readStorageEnvVar(value)
+  if (!storage) {
+    throw new Error(`Expected --storage to be tsv, json or sqlite`)
+  }
+  return storage
+}
+
+function parseAllowedSeverity(value: string): SeatbeltAllowedSeverity {
+  const allowedSeverity = SeatbeltEnv.readAllowedSeverityEnvVar(value)
+  if (!allowedSeverity) {
+    throw new Error(`Expected --allowedSeverity to be warn, suppress or off`)
+  }
+  return allowedSeverity
+}
+
+function parseLocale(value: string): SeatbeltLocale {
+  const locale = SeatbeltEnv.readLocaleEnvVar(value)
+  if (!locale) {
+    throw new Error(`Expected --locale to be en or de`)
+  }
+  return locale
+}
+
+function parseBoolean(value: string): boolean {
+  return SeatbeltEnv.readBooleanEnvVar(value) ?? true
+}
+
+function isSameConfigValue(a: unknown, b: unknown) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i])
+  }
+  return a === b
 }
 
+const FORWARD_SIGNALS: NodeJS.Signals[] = [
+  "SIGINT",
+  "SIGTERM",
+  "SIGHUP",
+  "SIGQUIT",
+]
+
 // eslint-disable-next-line no-console
 const stdout = (...args: unknown[]) => console.log(...args)
 // eslint-disable-next-line no-console
 const stderr = (...args: unknown[]) => console.error(...args)
 
+const SUBCOMMANDS: Record<string, (argv: string[]) => void> = {
+  stats: statsCommand,
+  expiry: expiryCommand,
+  "merge-driver": mergeDriverCommand,
+  "install-merge-driver": installMergeDriverCommand,
+  unlock: unlockCommand,
+  migrate: migrateCommand,
+}
+
+function runSubcommand(subcommand: string, argv: string[]) {
+  try {
+    SUBCOMMANDS[subcommand](argv)
+  } catch (e) {
+    logStderr(`${subcommand}:`, e instanceof Error ? e.message : e)
+    process.exit(1)
+  }
+}
+
 function main() {
-  const argsConfig = parseArgs()
+  const subcommand = process.argv[2]
+  if (subcommand && Object.hasOwn(SUBCOMMANDS, subcommand)) {
+    runSubcommand(subcommand, process.argv.slice(3))
+    return
+  }
+
+  const { argsConfig, env } = parseArgs()
 
   if (argsConfig.version) {
     stdout(`v${version}`)
     return
   }
 
+  const command = argsConfig.exec ?? "eslint"
+  // `_unknown` is missing when there are no extra arguments.
+  const commandArgs = argsConfig._unknown ?? []
+  if (commandArgs[0] === "--") {
+    commandArgs.shift()
+  }
+  const childEnv = argsConfigToEnv(argsConfig, env)
+
   if (argsConfig.verbose) {
     stderr("Parsed config:", argsConfig)
+    stderr("Environment:", childEnv)
+    stderr("Command:", [command, ...commandArgs].join(" "))
   }
-  // const args = SeatbeltArgs.fromConfig(argsConfig)
-  logStderr("command not implemented")
-  process.exit(1)
+
+  const child = spawn(command, commandArgs, {
+    stdio: "inherit",
+    env: { ...process.env, ...childEnv },
+  })
+
+  const forwardSignal = (signal: NodeJS.Signals) => {
+    child.kill(signal)
+  }
+  for (const signal of FORWARD_SIGNALS) {
+    process.on(signal, forwardSignal)
+  }
+
+  child.on("error", (error) => {
+    logStderr(`failed to run \`${command}\`:`, error.message)
+    process.exit(127)
+  })
+
+  child.on("exit", (code, signal) => {
+    for (const signal of FORWARD_SIGNALS) {
+      process.off(signal, forwardSignal)
+    }
+    if (signal) {
+      // Die the same way the child did so our parent sees the signal.
+      process.kill(process.pid, signal)
+      return
+    }
+    process.exit(code ?? 1)
+  })
 }
 
 if (require.main === module) {
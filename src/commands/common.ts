@@ -0,0 +1,20 @@
+import path from "node:path"
+import { SeatbeltArgs, SeatbeltConfigWithPwd } from "../SeatbeltConfig"
+
+export const SEATBELT_FILES_DESCRIPTION =
+  "Default: $SEATBELT_FILE or eslint.seatbelt.tsv in --pwd"
+
+/**
+ * Resolve the `--seatbeltFile` arguments of a subcommand to absolute paths,
+ * falling back to `$SEATBELT_FILE` or the default seatbelt file in `pwd`.
+ */
+export function resolveSeatbeltFiles(
+  pwd: string,
+  seatbeltFiles: string[] | undefined,
+  env: SeatbeltConfigWithPwd,
+): string[] {
+  if (seatbeltFiles && seatbeltFiles.length > 0) {
+    return seatbeltFiles.map((filename) => path.resolve(pwd, filename))
+  }
+  return [env.seatbeltFile ?? SeatbeltArgs.findSeatbeltFile(pwd)]
+}
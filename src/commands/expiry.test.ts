@@ -0,0 +1,94 @@
+import { test, describe, beforeEach, afterEach, mock } from "node:test"
+import assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { expiryCommand } from "./expiry"
+
+describe("expiryCommand", () => {
+  const now = new Date("2000-01-10T12:00:00Z")
+  let tmpDir: string
+  let seatbeltFilename: string
+  let exitCode: typeof process.exitCode
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-expiry-")),
+    )
+    seatbeltFilename = path.join(tmpDir, "eslint.seatbelt.tsv")
+    exitCode = process.exitCode
+  })
+
+  afterEach(async () => {
+    process.exitCode = exitCode
+    mock.restoreAll()
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  function runExpiry(lines: string[], args: string[] = []) {
+    fs.writeFileSync(seatbeltFilename, lines.join("\n") + "\n")
+    const log = mock.method(console, "log", () => {})
+    process.exitCode = undefined
+    expiryCommand(["--pwd", tmpDir, seatbeltFilename, ...args], now)
+    const code = process.exitCode
+    return {
+      code,
+      output: log.mock.calls.map((call) => call.arguments.join(" ")).join("\n"),
+    }
+  }
+
+  test("lists expired and soon to expire entries", () => {
+    const { code, output } = runExpiry([
+      `"b.js"\t"no-var"\t1\t"2000-01-20"`,
+      `"a.js"\t"no-var"\t2\t"2000-01-01"`,
+      `"c.js"\t"no-var"\t1\t"2000-03-01"`,
+      `"d.js"\t"no-var"\t1`,
+    ])
+    assert.strictEqual(code, 1)
+    assert.strictEqual(
+      output,
+      [
+        "1 expired entry, 1 expiring within 30 days",
+        "",
+        "Expired:",
+        "  2000-01-01  a.js  no-var  (2 allowed)",
+        "",
+        "Expiring soon:",
+        "  2000-01-20  b.js  no-var  (1 allowed)",
+      ].join("\n"),
+    )
+  })
+
+  test("exits with code 0 when nothing has expired", () => {
+    const { code, output } = runExpiry(
+      [`"b.js"\t"no-var"\t1\t"2000-01-20"`],
+      ["--within", "0"],
+    )
+    assert.strictEqual(code, undefined)
+    assert.strictEqual(output, "0 expired entries, 0 expiring within 0 days")
+  })
+
+  test("prints JSON", () => {
+    const { code, output } = runExpiry(
+      [
+        `"a.js"\t"no-var"\t2\t"2000-01-01"`,
+        `"b.js"\t"no-var"\t1\t"2000-01-20"`,
+      ],
+      ["--json"],
+    )
+    assert.strictEqual(code, 1)
+    assert.deepStrictEqual(
+      JSON.parse(output).map(
+        ({ filename, expiresAt, expired }: Record<string, unknown>) => ({
+          filename,
+          expiresAt,
+          expired,
+        }),
+      ),
+      [
+        { filename: "a.js", expiresAt: "2000-01-01", expired: true },
+        { filename: "b.js", expiresAt: "2000-01-20", expired: false },
+      ],
+    )
+  })
+})
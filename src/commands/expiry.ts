@@ -0,0 +1,160 @@
+import path from "node:path"
+import { parse } from "ts-command-line-args"
+import { SeatbeltConfig, SeatbeltEnv } from "../SeatbeltConfig"
+import { RuleId, SeatbeltAnnotations } from "../SeatbeltFile"
+import { SeatbeltStoreBase } from "../SeatbeltStoreBase"
+import { SeatbeltStore } from "../SeatbeltStore"
+import { name } from "../../package.json"
+import { resolveSeatbeltFiles, SEATBELT_FILES_DESCRIPTION } from "./common"
+
+export interface ExpiryCliConfig {
+  pwd: string
+  seatbeltFile?: string[]
+  within: number
+  json?: boolean
+  help?: boolean
+}
+
+interface ExpiryRow {
+  seatbeltFile: string
+  filename: string
+  ruleId: RuleId
+  allowed: number
+  expiresAt: string
+  expired: boolean
+  annotations?: SeatbeltAnnotations
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// eslint-disable-next-line no-console
+const stdout = (...args: unknown[]) => console.log(...args)
+
+/**
+ * List seatbelt entries whose expiry date has passed or will pass soon. Sets
+ * exit code 1 if any entry has expired.
+ */
+export function expiryCommand(argv: string[], now = new Date()) {
+  const env = SeatbeltConfig.fromEnvOverrides(process.env as SeatbeltEnv)
+  const config = parse<ExpiryCliConfig>(
+    {
+      pwd: {
+        type: String,
+        defaultValue: env.pwd,
+        description: "Paths are relative to this directory",
+      },
+      seatbeltFile: {
+        type: String,
+        alias: "f",
+        multiple: true,
+        defaultOption: true,
+        optional: true,
+        description: `Seatbelt files to read. ${SEATBELT_FILES_DESCRIPTION}`,
+      },
+      within: {
+        type: Number,
+        alias: "w",
+        defaultValue: 30,
+        description:
+          "Also list entries expiring within this many days. 0 for expired only",
+      },
+      json: {
+        type: Boolean,
+        optional: true,
+        description: "Print entries as JSON",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} expiry`,
+          content:
+            "List seatbelt entries that are past their expiry date or will expire soon. Exits with code 1 if any entry has expired.",
+        },
+      ],
+    },
+  )
+  if (!(config.within >= 0)) {
+    throw new Error(`Expected --within to be a number >= 0`)
+  }
+
+  const soon = new Date(now.getTime() + config.within * DAY_MS)
+  const rows: ExpiryRow[] = []
+  for (const filename of resolveSeatbeltFiles(
+    config.pwd,
+    config.seatbeltFile,
+    env,
+  )) {
+    const seatbeltFile = SeatbeltStore.readSync(filename, env.storage)
+    for (const sourceFile of seatbeltFile.filenames()) {
+      const maxErrors = seatbeltFile.getMaxErrors(sourceFile)
+      const annotations = seatbeltFile.getAnnotations(sourceFile)
+      seatbeltFile.getExpiresAt(sourceFile)?.forEach((expiresAt, ruleId) => {
+        if (!SeatbeltStoreBase.isExpired(expiresAt, soon)) {
+          return
+        }
+        rows.push({
+          seatbeltFile: path.relative(config.pwd, filename) || filename,
+          filename: path.relative(config.pwd, sourceFile) || sourceFile,
+          ruleId,
+          allowed: maxErrors?.get(ruleId) ?? 0,
+          expiresAt,
+          expired: SeatbeltStoreBase.isExpired(expiresAt, now),
+          annotations: annotations?.get(ruleId),
+        })
+      })
+    }
+  }
+  rows.sort(
+    (a, b) =>
+      a.expiresAt.localeCompare(b.expiresAt) ||
+      a.filename.localeCompare(b.filename) ||
+      a.ruleId.localeCompare(b.ruleId),
+  )
+
+  const expired = rows.filter((row) => row.expired)
+  if (expired.length > 0) {
+    process.exitCode = 1
+  }
+  if (config.json) {
+    stdout(JSON.stringify(rows, null, 2))
+    return
+  }
+
+  const expiring = rows.filter((row) => !row.expired)
+  const lines = [
+    `${expired.length} expired ${pluralEntries(expired.length)}, ${expiring.length} expiring within ${config.within} ${config.within === 1 ? "day" : "days"}`,
+  ]
+  const pushRows = (title: string, group: ExpiryRow[]) => {
+    if (group.length === 0) {
+      return
+    }
+    lines.push("", `${title}:`)
+    for (const row of group) {
+      const details = [
+        `${row.allowed} allowed`,
+        row.annotations?.owner,
+        row.annotations?.ticket,
+      ].filter(Boolean)
+      lines.push(
+        `  ${row.expiresAt}  ${row.filename}  ${row.ruleId}  (${details.join(", ")})`,
+      )
+    }
+  }
+  pushRows("Expired", expired)
+  pushRows("Expiring soon", expiring)
+  stdout(lines.join("\n"))
+}
+
+function pluralEntries(count: number) {
+  return count === 1 ? "entry" : "entries"
+}
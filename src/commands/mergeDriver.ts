@@ -0,0 +1,158 @@
+import fs from "node:fs"
+import path from "node:path"
+import { execFileSync } from "node:child_process"
+import { parse } from "ts-command-line-args"
+import { SEATBELT_FILE_NAME } from "../SeatbeltConfig"
+import { SeatbeltFile } from "../SeatbeltFile"
+import { findRepoRoot } from "../repoIntegration"
+import { name } from "../../package.json"
+
+const MERGE_DRIVER_NAME = name
+const DEFAULT_DRIVER_COMMAND = `npx --no-install ${name} merge-driver %O %A %B`
+
+export interface MergeDriverCliConfig {
+  files: string[]
+  help?: boolean
+}
+
+export interface InstallMergeDriverCliConfig {
+  pwd: string
+  pattern: string
+  command: string
+  help?: boolean
+}
+
+// eslint-disable-next-line no-console
+const stdout = (...args: unknown[]) => console.log(...args)
+
+/**
+ * `git merge` calls this with the base, ours and theirs versions of the
+ * seatbelt file. The merged result must be written to the "ours" file.
+ *
+ * https://git-scm.com/docs/gitattributes#_defining_a_custom_merge_driver
+ */
+export function mergeDriverCommand(argv: string[]) {
+  const config = parse<MergeDriverCliConfig>(
+    {
+      files: {
+        type: String,
+        multiple: true,
+        defaultOption: true,
+        defaultValue: [],
+        description: "Base, ours and theirs files: %O %A %B",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} merge-driver`,
+          content: [
+            `Git merge driver for ${SEATBELT_FILE_NAME}. Run \`${name} install-merge-driver\` to set it up.`,
+            "",
+            `$ ${name} merge-driver %O %A %B`,
+          ],
+        },
+      ],
+    },
+  )
+
+  if (config.files.length !== 3) {
+    throw new Error(
+      `Expected 3 files (base, ours, theirs), got ${config.files.length}`,
+    )
+  }
+  const [baseFilename, oursFilename, theirsFilename] = config.files
+  const merged = SeatbeltFile.merge(
+    oursFilename,
+    SeatbeltFile.readSync(baseFilename),
+    SeatbeltFile.readSync(oursFilename),
+    SeatbeltFile.readSync(theirsFilename),
+  )
+  merged.writeSync()
+}
+
+/**
+ * Register the merge driver in `.git/config` and assign it to seatbelt files
+ * in `.gitattributes`. Safe to run more than once.
+ */
+export function installMergeDriverCommand(argv: string[]) {
+  const config = parse<InstallMergeDriverCliConfig>(
+    {
+      pwd: {
+        type: String,
+        defaultValue: process.cwd(),
+        description: "Install in the git repository containing this directory",
+      },
+      pattern: {
+        type: String,
+        defaultValue: SEATBELT_FILE_NAME,
+        description: ".gitattributes pattern matching seatbelt files",
+      },
+      command: {
+        type: String,
+        defaultValue: DEFAULT_DRIVER_COMMAND,
+        description: "Merge driver command stored in .git/config",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} install-merge-driver`,
+          content: `Register the ${name} merge driver in .git/config and .gitattributes.`,
+        },
+      ],
+    },
+  )
+
+  const root = findRepoRoot(path.resolve(config.pwd))
+  if (!root) {
+    throw new Error(`Not in a git repository: ${config.pwd}`)
+  }
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: root, stdio: "inherit" })
+  git(
+    "config",
+    `merge.${MERGE_DRIVER_NAME}.name`,
+    `${name} ${SEATBELT_FILE_NAME} merge driver`,
+  )
+  git("config", `merge.${MERGE_DRIVER_NAME}.driver`, config.command)
+  stdout(`Registered merge driver "${MERGE_DRIVER_NAME}" in .git/config`)
+
+  const attributesFilename = path.join(root, ".gitattributes")
+  const attributesLine = `${config.pattern} merge=${MERGE_DRIVER_NAME}`
+  const attributes = fs.existsSync(attributesFilename)
+    ? fs.readFileSync(attributesFilename, "utf8")
+    : ""
+  if (
+    attributes.split(/\r?\n/).some((line) => line.trim() === attributesLine)
+  ) {
+    stdout(`.gitattributes already contains \`${attributesLine}\``)
+    return
+  }
+  const separator = attributes === "" || attributes.endsWith("\n") ? "" : "\n"
+  fs.writeFileSync(
+    attributesFilename,
+    `${attributes}${separator}${attributesLine}\n`,
+    "utf8",
+  )
+  stdout(`Added \`${attributesLine}\` to .gitattributes`)
+}
@@ -0,0 +1,90 @@
+import path from "node:path"
+import { parse } from "ts-command-line-args"
+import { SeatbeltConfig, SeatbeltEnv } from "../SeatbeltConfig"
+import { SEATBELT_FILE_FORMAT_VERSION } from "../SeatbeltFile"
+import { SeatbeltStore } from "../SeatbeltStore"
+import { name } from "../../package.json"
+import { resolveSeatbeltFiles, SEATBELT_FILES_DESCRIPTION } from "./common"
+
+export interface MigrateCliConfig {
+  pwd: string
+  seatbeltFile?: string[]
+  check?: boolean
+  help?: boolean
+}
+
+// eslint-disable-next-line no-console
+const stdout = (...args: unknown[]) => console.log(...args)
+
+/**
+ * Rewrite seatbelt files in the current format version, keeping their entries
+ * and comments.
+ */
+export function migrateCommand(argv: string[]) {
+  const env = SeatbeltConfig.fromEnvOverrides(process.env as SeatbeltEnv)
+  const config = parse<MigrateCliConfig>(
+    {
+      pwd: {
+        type: String,
+        defaultValue: env.pwd,
+        description: "Paths are relative to this directory",
+      },
+      seatbeltFile: {
+        type: String,
+        alias: "f",
+        multiple: true,
+        defaultOption: true,
+        optional: true,
+        description: `Seatbelt files to migrate. ${SEATBELT_FILES_DESCRIPTION}`,
+      },
+      check: {
+        type: Boolean,
+        optional: true,
+        description:
+          "Don't write anything. Exit with an error if any file needs migrating",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} migrate`,
+          content: `Rewrite seatbelt files in format version ${SEATBELT_FILE_FORMAT_VERSION}, keeping their entries and comments.`,
+        },
+      ],
+    },
+  )
+
+  for (const filename of resolveSeatbeltFiles(
+    config.pwd,
+    config.seatbeltFile,
+    env,
+  )) {
+    const seatbeltFile = SeatbeltStore.readSync(filename, env.storage)
+    const displayName = path.relative(config.pwd, filename) || filename
+    const previousVersion = seatbeltFile.migrate()
+    if (previousVersion === SEATBELT_FILE_FORMAT_VERSION) {
+      stdout(
+        `${displayName}: already format version ${SEATBELT_FILE_FORMAT_VERSION}`,
+      )
+    } else if (config.check) {
+      stdout(
+        `${displayName}: needs migrating from format version ${previousVersion} to ${SEATBELT_FILE_FORMAT_VERSION}`,
+      )
+      process.exitCode = 1
+    } else {
+      seatbeltFile.flushChanges()
+      stdout(
+        `${displayName}: migrated from format version ${previousVersion} to ${SEATBELT_FILE_FORMAT_VERSION}`,
+      )
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import path from "node:path"
+import { parse } from "ts-command-line-args"
+import { SeatbeltConfig, SeatbeltEnv } from "../SeatbeltConfig"
+import { SeatbeltStore } from "../SeatbeltStore"
+import {
+  SeatbeltStats,
+  SeatbeltStatsRow,
+  SeatbeltStatsSortKey,
+} from "../SeatbeltStats"
+import { name } from "../../package.json"
+import { resolveSeatbeltFiles, SEATBELT_FILES_DESCRIPTION } from "./common"
+
+export interface StatsCliConfig {
+  pwd: string
+  seatbeltFile?: string[]
+  sort: string
+  limit: number
+  depth?: number
+  group: string[]
+  json?: boolean
+  help?: boolean
+}
+
+const SORT_KEYS: SeatbeltStatsSortKey[] = ["allowed", "files", "rules", "name"]
+const GROUPS = ["rule", "directory", "file", "owner"] as const
+type Group = (typeof GROUPS)[number]
+const DEFAULT_GROUPS: Group[] = ["rule", "directory", "file"]
+
+const GROUP_TITLES: Record<Group, string> = {
+  rule: "By rule",
+  directory: "By directory",
+  file: "By file",
+  owner: "By owner",
+}
+
+// eslint-disable-next-line no-console
+const stdout = (...args: unknown[]) => console.log(...args)
+
+function parseStatsArgs(argv: string[]) {
+  const env = SeatbeltConfig.fromEnvOverrides(process.env as SeatbeltEnv)
+  const config = parse<StatsCliConfig>(
+    {
+      pwd: {
+        type: String,
+        defaultValue: env.pwd,
+        description: "Paths are relative to this directory",
+      },
+      seatbeltFile: {
+        type: String,
+        alias: "f",
+        multiple: true,
+        defaultOption: true,
+        optional: true,
+        description: `Seatbelt files to read. ${SEATBELT_FILES_DESCRIPTION}`,
+      },
+      sort: {
+        type: String,
+        alias: "s",
+        defaultValue: "allowed",
+        description: `Sort rows by one of: ${SORT_KEYS.join(", ")}`,
+      },
+      limit: {
+        type: Number,
+        alias: "n",
+        defaultValue: 20,
+        description: "Show at most this many rows per group. 0 for unlimited",
+      },
+      depth: {
+        type: Number,
+        optional: true,
+        description:
+          "Group directories by their first N path segments. Default: full directory name",
+      },
+      group: {
+        type: String,
+        alias: "g",
+        multiple: true,
+        defaultValue: DEFAULT_GROUPS,
+        description: `Groups to show, any of: ${GROUPS.join(", ")}. Default: ${DEFAULT_GROUPS.join(", ")}`,
+      },
+      json: {
+        type: Boolean,
+        optional: true,
+        description: "Print stats as JSON",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} stats`,
+          content:
+            "Print allowed error totals per rule, directory and source file without running ESLint.",
+        },
+      ],
+    },
+  )
+  return { config, env }
+}
+
+export function statsCommand(argv: string[]) {
+  const { config, env } = parseStatsArgs(argv)
+  const sort = config.sort as SeatbeltStatsSortKey
+  if (!SORT_KEYS.includes(sort)) {
+    throw new Error(
+      `Unknown --sort ${config.sort}, expected one of: ${SORT_KEYS.join(", ")}`,
+    )
+  }
+  const groups = config.group.map((group) => {
+    if (!GROUPS.includes(group as Group)) {
+      throw new Error(
+        `Unknown --group ${group}, expected any of: ${GROUPS.join(", ")}`,
+      )
+    }
+    return group as Group
+  })
+
+  const seatbeltFiles = resolveSeatbeltFiles(
+    config.pwd,
+    config.seatbeltFile,
+    env,
+  ).map((filename) => SeatbeltStore.readSync(filename, env.storage))
+  const stats = SeatbeltStats.fromFiles(seatbeltFiles, {
+    pwd: config.pwd,
+    directoryDepth: config.depth,
+  })
+  const limitRows = (rows: SeatbeltStatsRow[]) =>
+    SeatbeltStats.sortRows(rows, sort, config.limit)
+  const byGroup: Record<Group, SeatbeltStatsRow[]> = {
+    rule: limitRows(stats.byRule),
+    directory: limitRows(stats.byDirectory),
+    file: limitRows(stats.byFile),
+    owner: limitRows(stats.byOwner),
+  }
+
+  if (config.json) {
+    stdout(
+      JSON.stringify(
+        {
+          seatbeltFiles: stats.seatbeltFiles,
+          total: stats.total,
+          ...(groups.includes("rule") && { byRule: byGroup.rule }),
+          ...(groups.includes("directory") && {
+            byDirectory: byGroup.directory,
+          }),
+          ...(groups.includes("file") && { byFile: byGroup.file }),
+          ...(groups.includes("owner") && { byOwner: byGroup.owner }),
+        },
+        null,
+        2,
+      ),
+    )
+    return
+  }
+
+  const seatbeltFileNames = stats.seatbeltFiles
+    .map((filename) => path.relative(config.pwd, filename) || filename)
+    .join(", ")
+  const lines = [
+    `${stats.total.allowed} allowed ${pluralErrors(stats.total.allowed)} in ${stats.total.files} source ${pluralFiles(stats.total.files)} for ${stats.total.rules} ${stats.total.rules === 1 ? "rule" : "rules"} (${seatbeltFileNames})`,
+  ]
+  for (const group of groups) {
+    const rows = byGroup[group]
+    if (rows.length === 0) {
+      continue
+    }
+    lines.push("", `${GROUP_TITLES[group]}:`)
+    const width = Math.max(...rows.map((row) => String(row.allowed).length))
+    for (const row of rows) {
+      const detail =
+        group === "rule"
+          ? `${row.files} ${pluralFiles(row.files)}`
+          : group === "owner"
+            ? `${row.files} ${pluralFiles(row.files)}, ${row.rules} ${row.rules === 1 ? "rule" : "rules"}`
+            : `${row.rules} ${row.rules === 1 ? "rule" : "rules"}`
+      lines.push(
+        `  ${String(row.allowed).padStart(width)}  ${row.name}  (${detail})`,
+      )
+    }
+  }
+  stdout(lines.join("\n"))
+}
+
+function pluralErrors(count: number) {
+  return count === 1 ? "error" : "errors"
+}
+
+function pluralFiles(count: number) {
+  return count === 1 ? "file" : "files"
+}
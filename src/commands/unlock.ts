@@ -0,0 +1,86 @@
+import { parse } from "ts-command-line-args"
+import { FileLock } from "../FileLock"
+import { SeatbeltConfig, SeatbeltEnv } from "../SeatbeltConfig"
+import { SeatbeltStoreBase } from "../SeatbeltStoreBase"
+import { name } from "../../package.json"
+import { resolveSeatbeltFiles, SEATBELT_FILES_DESCRIPTION } from "./common"
+
+export interface UnlockCliConfig {
+  pwd: string
+  seatbeltFile?: string[]
+  force?: boolean
+  help?: boolean
+}
+
+// eslint-disable-next-line no-console
+const stdout = (...args: unknown[]) => console.log(...args)
+
+/**
+ * Remove the lock file left behind by a crashed `threadsafe` ESLint process.
+ * Refuses to remove locks whose owner is still running unless `--force` is given.
+ */
+export function unlockCommand(argv: string[]) {
+  const env = SeatbeltConfig.fromEnvOverrides(process.env as SeatbeltEnv)
+  const config = parse<UnlockCliConfig>(
+    {
+      pwd: {
+        type: String,
+        defaultValue: env.pwd,
+        description: "Paths are relative to this directory",
+      },
+      seatbeltFile: {
+        type: String,
+        alias: "f",
+        multiple: true,
+        defaultOption: true,
+        optional: true,
+        description: `Seatbelt files to unlock. ${SEATBELT_FILES_DESCRIPTION}`,
+      },
+      force: {
+        type: Boolean,
+        optional: true,
+        description: "Remove the lock even if its owner is still running",
+      },
+      help: {
+        type: Boolean,
+        optional: true,
+        alias: "h",
+        description: "Show help and exit",
+      },
+    },
+    {
+      argv,
+      processExitCode: 2,
+      helpArg: "help",
+      headerContentSections: [
+        {
+          header: `${name} unlock`,
+          content: `Remove a seatbelt file lock left behind by a crashed ESLint process.`,
+        },
+      ],
+    },
+  )
+
+  const seatbeltFiles = resolveSeatbeltFiles(
+    config.pwd,
+    config.seatbeltFile,
+    env,
+  )
+  for (const seatbeltFile of seatbeltFiles) {
+    const lockFilename = SeatbeltStoreBase.lockFilename(seatbeltFile)
+    const info = FileLock.readInfo(lockFilename)
+    if (info && FileLock.isOwnerAlive(info) && !config.force) {
+      throw new Error(
+        `${lockFilename} is held by pid ${info.pid} on ${info.hostname} since ${info.acquiredAt}, which may still be running. Use --force to remove it anyway.`,
+      )
+    }
+    if (FileLock.forceUnlock(lockFilename)) {
+      const owner = info
+        ? ` (was held by pid ${info.pid} on ${info.hostname} since ${info.acquiredAt})`
+        : ""
+      stdout(`Removed ${lockFilename}${owner}`)
+    } else {
+      stdout(`Not locked: ${lockFilename}`)
+    }
+  }
+}
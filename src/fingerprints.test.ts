@@ -0,0 +1,38 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import type { Linter } from "eslint"
+import { fingerprintMessage, splitSourceLines } from "./fingerprints"
+
+function noVar(
+  line: number,
+  column = 1,
+): Linter.LintMessage & { ruleId: string } {
+  return {
+    ruleId: "no-var",
+    message: "Unexpected var, use let or const instead.",
+    severity: 2,
+    line,
+    column,
+    endLine: line,
+    endColumn: column + 9,
+  }
+}
+
+describe("fingerprintMessage", () => {
+  test("ignores line numbers and whitespace", () => {
+    const before = splitSourceLines("var a = 1\nvar b = 2\n")
+    const after = splitSourceLines("// moved\n\n  var a = 1\nvar b = 2\n")
+    assert.strictEqual(
+      fingerprintMessage(noVar(1), before),
+      fingerprintMessage(noVar(3, 3), after),
+    )
+  })
+
+  test("depends on the source code", () => {
+    const lines = splitSourceLines("var a = 1\nvar b = 2\n")
+    assert.notStrictEqual(
+      fingerprintMessage(noVar(1), lines),
+      fingerprintMessage(noVar(2), lines),
+    )
+  })
+})
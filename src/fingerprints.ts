@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto"
+import type { Linter } from "eslint"
+
+/**
+ * A stable identifier for a lint error that survives unrelated edits.
+ *
+ * Hashes the rule, the message, the source code the error points at, and
+ * the full lines containing it. Whitespace is normalized and the line number
+ * is left out, so the fingerprint doesn't change when code above it moves or
+ * is reformatted.
+ */
+export function fingerprintMessage(
+  message: Linter.LintMessage & { ruleId: string },
+  sourceLines: readonly string[],
+): string {
+  const startLine = Math.max(message.line, 1)
+  const endLine = Math.max(message.endLine ?? startLine, startLine)
+  const lines = sourceLines.slice(startLine - 1, endLine)
+  let snippet = lines.join("\n")
+  if (lines.length > 0) {
+    // Columns are 1-based, and endColumn points just past the error.
+    const endColumn = message.endColumn ?? lines[lines.length - 1].length + 1
+    const end = snippet.length - lines[lines.length - 1].length + endColumn - 1
+    snippet = snippet.slice(Math.max(message.column - 1, 0), end)
+  }
+
+  const hash = createHash("sha256")
+  for (const part of [
+    message.ruleId,
+    message.message,
+    normalizeWhitespace(snippet),
+    normalizeWhitespace(lines.join("\n")),
+  ]) {
+    hash.update(part)
+    hash.update("\0")
+  }
+  return hash.digest("hex").slice(0, 16)
+}
+
+/**
+ * The fingerprints in `current` that are also in `stored`, counting
+ * duplicates, sorted.
+ */
+export function matchFingerprints(
+  current: readonly string[],
+  stored: readonly string[],
+): string[] {
+  const remaining = new Map<string, number>()
+  for (const fingerprint of stored) {
+    remaining.set(fingerprint, (remaining.get(fingerprint) ?? 0) + 1)
+  }
+  const matched: string[] = []
+  for (const fingerprint of current) {
+    const count = remaining.get(fingerprint) ?? 0
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1)
+      matched.push(fingerprint)
+    }
+  }
+  return matched.sort()
+}
+
+export function splitSourceLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/)
+}
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim()
+}
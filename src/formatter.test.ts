@@ -0,0 +1,159 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import path from "node:path"
+import type { ESLint } from "eslint"
+import seatbeltFormatter from "./formatter"
+import { SeatbeltLintMessage, SeatbeltMessageData } from "./SeatbeltMessage"
+
+function message(
+  ruleId: string,
+  line: number,
+  severity: 1 | 2,
+  seatbelt?: Omit<SeatbeltMessageData, "seatbeltFile">,
+): SeatbeltLintMessage {
+  return {
+    ruleId,
+    line,
+    column: 1,
+    severity,
+    message: seatbelt
+      ? `Unexpected var.\n[eslint-seatbelt]: ${seatbelt.status}`
+      : "Unexpected var.",
+    ...(seatbelt && {
+      seatbelt: { ...seatbelt, seatbeltFile: file("eslint.seatbelt.tsv") },
+    }),
+  }
+}
+
+/** Filenames are shown relative to the working directory. */
+function file(filename: string) {
+  return path.join(process.cwd(), filename)
+}
+
+function result(
+  filePath: string,
+  messages: SeatbeltLintMessage[],
+): ESLint.LintResult {
+  return {
+    filePath,
+    messages,
+    suppressedMessages: [],
+    errorCount: 0,
+    fatalErrorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: [],
+  }
+}
+
+describe("seatbeltFormatter", () => {
+  test("separates new errors from allowed errors", () => {
+    const output = seatbeltFormatter([
+      result(file("a.js"), [
+        message("no-var", 1, 2, {
+          status: "over-limit",
+          errorCount: 2,
+          maxErrorCount: 1,
+        }),
+        message("no-var", 2, 2, {
+          status: "over-limit",
+          errorCount: 2,
+          maxErrorCount: 1,
+        }),
+        message("eqeqeq", 3, 1, {
+          status: "at-limit",
+          errorCount: 1,
+          maxErrorCount: 1,
+        }),
+      ]),
+      result(file("b c.js"), [
+        message("no-var", 1, 1, {
+          status: "frozen-mismatch",
+          errorCount: 1,
+          maxErrorCount: 3,
+        }),
+      ]),
+      result(file("c.js"), [message("no-debugger", 4, 2)]),
+    ])
+
+    assert.strictEqual(
+      output,
+      `New problems (3):
+
+a.js
+  1:1  error  Unexpected var.  no-var  (over-limit: 2 found, 1 allowed)
+  2:1  error  Unexpected var.  no-var  (over-limit: 2 found, 1 allowed)
+
+c.js
+  4:1  error  Unexpected var.  no-debugger
+
+Allowed errors (2 in 2 files):
+
+By rule:
+  1  eqeqeq  (1 file, max 1)
+  1  no-var  (1 file, max 3)
+
+By file:
+  1  a.js  (max 1)
+  1  b c.js  (max 3)
+
+Budgets to tighten (1):
+  b c.js  no-var  3 -> 1  (SEATBELT_FROZEN)
+
+3 new problems, 2 allowed errors, 1 budget to tighten
+
+The seatbelt file is frozen, so these budgets weren't updated. To allow the new errors instead of fixing them, run this and commit eslint.seatbelt.tsv:
+
+  SEATBELT_FROZEN=0 eslint-seatbelt --allowIncreaseRules no-var -- a.js 'b c.js'
+`,
+    )
+  })
+
+  test("ends with the command to fix a frozen mismatch", () => {
+    const output = seatbeltFormatter([
+      result(file("a.js"), [
+        message("no-var", 1, 2, {
+          status: "frozen-mismatch",
+          errorCount: 1,
+          maxErrorCount: 2,
+        }),
+      ]),
+    ])
+    assert.strictEqual(
+      output.split("\n").slice(-4).join("\n"),
+      `The seatbelt file is frozen, so these budgets weren't updated. To fix, run this and commit eslint.seatbelt.tsv:
+
+  SEATBELT_FROZEN=0 eslint a.js
+`,
+    )
+  })
+
+  test("ends with the command to allow errors over the limit", () => {
+    const output = seatbeltFormatter([
+      result(file("a.js"), [
+        message("no-var", 1, 2, {
+          status: "over-limit",
+          errorCount: 2,
+          maxErrorCount: 1,
+        }),
+        message("@typescript-eslint/no-explicit-any", 2, 2, {
+          status: "new-fingerprint",
+          errorCount: 1,
+          maxErrorCount: 1,
+        }),
+      ]),
+    ])
+    assert.strictEqual(
+      output.split("\n").slice(-4).join("\n"),
+      `To allow the new errors instead of fixing them, run this and commit eslint.seatbelt.tsv:
+
+  eslint-seatbelt --allowIncreaseRules no-var @typescript-eslint/no-explicit-any -- a.js
+`,
+    )
+  })
+
+  test("prints nothing without messages", () => {
+    assert.strictEqual(seatbeltFormatter([result(file("a.js"), [])]), "")
+  })
+})
@@ -0,0 +1,275 @@
+import type { ESLint, Linter } from "eslint"
+import {
+  formatFilename,
+  formatShellArg,
+  SEATBELT_FROZEN,
+} from "./SeatbeltConfig"
+import { RuleId } from "./SeatbeltFile"
+import { SeatbeltMessageData } from "./SeatbeltMessage"
+import { name } from "../package.json"
+
+/** Number of files listed in the allowed errors summary. */
+const FILE_SUMMARY_LIMIT = 10
+
+/** The seatbelt state of one rule in one linted file. */
+interface FormatterEntry {
+  filePath: string
+  ruleId: RuleId
+  data: SeatbeltMessageData
+}
+
+/**
+ * ESLint formatter that lists new errors first, followed by a summary of the
+ * errors allowed by the seatbelt file and budgets that can be tightened. It
+ * ends with the command that updates the seatbelt file to fix a frozen
+ * mismatch or allow the new errors.
+ *
+ * ```bash
+ * eslint -f ./node_modules/eslint-seatbelt/dist/formatter.js
+ * ```
+ */
+export default function seatbeltFormatter(
+  results: ESLint.LintResult[],
+): string {
+  const problems: string[] = []
+  let problemCount = 0
+  const entries = new Map<string, FormatterEntry>()
+
+  for (const result of results) {
+    const fileProblems: string[] = []
+    const messages: Linter.LintMessage[] = [
+      ...result.messages,
+      ...(result.suppressedMessages ?? []),
+    ]
+    for (const message of messages) {
+      const data = SeatbeltMessageData.fromMessage(message)
+      if (data && message.ruleId) {
+        // Every message of a rule in a file has the same state.
+        entries.set(`${result.filePath}\0${message.ruleId}`, {
+          filePath: result.filePath,
+          ruleId: message.ruleId,
+          data,
+        })
+      }
+      if (!isProblem(message, data)) {
+        continue
+      }
+      problemCount++
+      fileProblems.push(formatProblem(message, data))
+    }
+    if (fileProblems.length > 0) {
+      problems.push("", formatFilename(result.filePath), ...fileProblems)
+    }
+  }
+
+  const lines: string[] = []
+  if (problemCount > 0) {
+    lines.push(`New problems (${problemCount}):`, ...problems)
+  }
+
+  const allowed = Array.from(entries.values()).filter(
+    ({ data }) =>
+      SeatbeltMessageData.isAllowed(data) || data.status === "frozen-mismatch",
+  )
+  const allowedCount = sum(allowed.map(({ data }) => data.errorCount))
+  if (allowed.length > 0) {
+    pushSection(lines, formatAllowed(allowed, allowedCount))
+  }
+
+  const tightenable = Array.from(entries.values()).filter(
+    ({ data }) =>
+      data.status === "under-limit" || data.status === "frozen-mismatch",
+  )
+  if (tightenable.length > 0) {
+    pushSection(lines, formatTightenable(tightenable))
+  }
+
+  if (lines.length === 0) {
+    return ""
+  }
+  pushSection(lines, [
+    `${problemCount} new ${problemCount === 1 ? "problem" : "problems"}, ${allowedCount} allowed ${pluralErrors(allowedCount)}, ${tightenable.length} ${tightenable.length === 1 ? "budget" : "budgets"} to tighten`,
+  ])
+
+  const fixable = Array.from(entries.values()).filter(
+    ({ data }) =>
+      data.status === "frozen-mismatch" ||
+      data.status === "over-limit" ||
+      data.status === "new-fingerprint",
+  )
+  if (fixable.length > 0) {
+    // Last, so the command is easy to find at the end of long output.
+    pushSection(lines, formatFix(fixable))
+  }
+  return lines.join("\n") + "\n"
+}
+
+/** Messages seatbelt doesn't allow, including ones not controlled by seatbelt. */
+function isProblem(
+  message: Linter.LintMessage,
+  data: SeatbeltMessageData | undefined,
+): boolean {
+  if ("suppressions" in message) {
+    return false
+  }
+  if (!data) {
+    return true
+  }
+  // Frozen mismatches are listed with the budgets to tighten.
+  return (
+    !SeatbeltMessageData.isAllowed(data) && data.status !== "frozen-mismatch"
+  )
+}
+
+function formatProblem(
+  message: Linter.LintMessage,
+  data: SeatbeltMessageData | undefined,
+): string {
+  const severity = message.severity === 2 ? "error" : "warning"
+  const text = stripSeatbeltNote(message.message).replaceAll("\n", " ")
+  const line = `  ${message.line}:${message.column}  ${severity}  ${text}  ${message.ruleId ?? ""}`
+  if (!data) {
+    return line.trimEnd()
+  }
+  return `${line}  (${data.status}: ${data.errorCount} found, ${data.maxErrorCount} allowed)`
+}
+
+function formatAllowed(
+  allowed: FormatterEntry[],
+  allowedCount: number,
+): string[] {
+  const byRule = groupCounts(allowed, (entry) => entry.ruleId)
+  const byFile = groupCounts(allowed, (entry) => entry.filePath)
+    .sort((a, b) => b.errors - a.errors)
+    .slice(0, FILE_SUMMARY_LIMIT)
+  const fileCount = countUnique(allowed.map(({ filePath }) => filePath))
+  const lines = [
+    `Allowed errors (${allowedCount} in ${fileCount} ${pluralFiles(fileCount)}):`,
+    "",
+    "By rule:",
+  ]
+  const ruleWidth = Math.max(...byRule.map((row) => String(row.errors).length))
+  for (const row of byRule.sort((a, b) => b.errors - a.errors)) {
+    lines.push(
+      `  ${String(row.errors).padStart(ruleWidth)}  ${row.key}  (${row.entries} ${pluralFiles(row.entries)}, max ${row.maxErrors})`,
+    )
+  }
+  lines.push("", "By file:")
+  const fileWidth = Math.max(...byFile.map((row) => String(row.errors).length))
+  for (const row of byFile) {
+    lines.push(
+      `  ${String(row.errors).padStart(fileWidth)}  ${formatFilename(row.key)}  (max ${row.maxErrors})`,
+    )
+  }
+  return lines
+}
+
+function formatTightenable(tightenable: FormatterEntry[]): string[] {
+  const lines = [`Budgets to tighten (${tightenable.length}):`]
+  for (const { filePath, ruleId, data } of tightenable) {
+    const note =
+      data.status === "frozen-mismatch" ? `  (${SEATBELT_FROZEN})` : ""
+    lines.push(
+      `  ${formatFilename(filePath)}  ${ruleId}  ${data.maxErrorCount} -> ${data.errorCount}${note}`,
+    )
+  }
+  return lines
+}
+
+/**
+ * The command that updates the seatbelt file for frozen mismatches and errors
+ * over the limit, ending the output.
+ */
+function formatFix(fixable: FormatterEntry[]): string[] {
+  const frozen = fixable.some(({ data }) => data.status === "frozen-mismatch")
+  const rules = unique(
+    fixable
+      .filter(({ data }) => data.status !== "frozen-mismatch")
+      .map(({ ruleId }) => ruleId),
+  )
+  const files = unique(fixable.map(({ filePath }) => formatFilename(filePath)))
+  const seatbeltFiles = unique(
+    fixable.map(({ data }) => formatFilename(data.seatbeltFile)),
+  )
+  const command = [
+    ...(frozen ? [`${SEATBELT_FROZEN}=0`] : []),
+    ...(rules.length > 0
+      ? [name, "--allowIncreaseRules", ...rules.map(formatShellArg), "--"]
+      : ["eslint"]),
+    ...files.map(formatShellArg),
+  ].join(" ")
+  const reasons = [
+    ...(frozen
+      ? ["The seatbelt file is frozen, so these budgets weren't updated."]
+      : []),
+    rules.length > 0
+      ? "To allow the new errors instead of fixing them,"
+      : "To fix,",
+  ]
+  return [
+    `${reasons.join(" ")} run this and commit ${seatbeltFiles.join(", ")}:`,
+    "",
+    `  ${command}`,
+  ]
+}
+
+interface GroupCount {
+  key: string
+  errors: number
+  maxErrors: number
+  entries: number
+}
+
+function groupCounts(
+  entries: FormatterEntry[],
+  keyOf: (entry: FormatterEntry) => string,
+): GroupCount[] {
+  const groups = new Map<string, GroupCount>()
+  for (const entry of entries) {
+    const key = keyOf(entry)
+    let group = groups.get(key)
+    if (!group) {
+      group = { key, errors: 0, maxErrors: 0, entries: 0 }
+      groups.set(key, group)
+    }
+    group.errors += entry.data.errorCount
+    // Aggregate budgets are shared by many files, so they can't be summed.
+    if (entry.data.status !== "aggregate-budget") {
+      group.maxErrors += entry.data.maxErrorCount
+    }
+    group.entries++
+  }
+  return Array.from(groups.values())
+}
+
+function pushSection(lines: string[], section: string[]) {
+  if (lines.length > 0) {
+    lines.push("")
+  }
+  lines.push(...section)
+}
+
+function stripSeatbeltNote(message: string): string {
+  const index = message.indexOf(`\n[${name}]: `)
+  return index === -1 ? message : message.slice(0, index)
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
+
+function countUnique<T>(values: T[]): number {
+  return new Set(values).size
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function pluralErrors(count: number) {
+  return count === 1 ? "error" : "errors"
+}
+
+function pluralFiles(count: number) {
+  return count === 1 ? "file" : "files"
+}
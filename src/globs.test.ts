@@ -0,0 +1,52 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import { globToRegExp } from "./globs"
+
+function assertMatches(glob: string, matches: string[], nonMatches: string[]) {
+  const regExp = globToRegExp(glob)
+  for (const path of matches) {
+    assert.ok(regExp.test(path), `${glob} should match ${path}`)
+  }
+  for (const path of nonMatches) {
+    assert.ok(!regExp.test(path), `${glob} should not match ${path}`)
+  }
+}
+
+describe("globToRegExp", () => {
+  test("* matches within a path segment", () => {
+    assertMatches("src/*.ts", ["src/a.ts", "src/.ts"], ["src/a/b.ts", "a.ts"])
+  })
+
+  test("** matches any number of directories", () => {
+    assertMatches(
+      "packages/ui/**",
+      ["packages/ui/a.ts", "packages/ui/src/deep/a.ts"],
+      ["packages/ui2/a.ts", "packages/a.ts"],
+    )
+    assertMatches(
+      "**/*.test.ts",
+      ["a.test.ts", "src/a.test.ts", "src/deep/a.test.ts"],
+      ["src/a.ts"],
+    )
+    assertMatches(
+      "src/**/index.ts",
+      ["src/index.ts", "src/a/b/index.ts"],
+      ["src/a/xindex.ts"],
+    )
+  })
+
+  test("?, character classes and alternatives", () => {
+    assertMatches("file?.ts", ["file1.ts"], ["file.ts", "file12.ts"])
+    assertMatches("file[0-9].ts", ["file1.ts"], ["filea.ts"])
+    assertMatches("file[!0-9].ts", ["filea.ts"], ["file1.ts"])
+    assertMatches(
+      "packages/{ui,api}/**",
+      ["packages/ui/a.ts", "packages/api/a.ts"],
+      ["packages/web/a.ts"],
+    )
+  })
+
+  test("escapes regular expression characters", () => {
+    assertMatches("a+b (1).ts", ["a+b (1).ts"], ["aab 1.ts"])
+  })
+})
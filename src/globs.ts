@@ -0,0 +1,57 @@
+/**
+ * Minimal glob matching for config file patterns, so we don't depend on
+ * ESLint's copy of minimatch.
+ *
+ * Supports `**`, `*`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ * Patterns are matched against the whole POSIX-style relative path.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ""
+  let braceDepth = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/"
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/"
+        if (atSegmentStart && atSegmentEnd) {
+          i++
+          if (glob[i + 1] === "/") {
+            // `**/` matches zero or more directories.
+            i++
+            source += "(?:[^/]*(?:/|$))*"
+          } else {
+            source += ".*"
+          }
+          continue
+        }
+      }
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2)
+      if (end === -1) {
+        source += "\\["
+        continue
+      }
+      let chars = glob.slice(i + 1, end).replace(/\\/g, "\\\\")
+      if (chars.startsWith("!")) {
+        chars = `^${chars.slice(1)}`
+      }
+      source += `[${chars}]`
+      i = end
+    } else if (char === "{") {
+      braceDepth++
+      source += "(?:"
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--
+      source += ")"
+    } else if (char === "," && braceDepth > 0) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
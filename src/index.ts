@@ -2,6 +2,7 @@ import type { ESLint, Linter } from "eslint"
 import packageJson from "../package.json"
 import { SeatbeltProcessor } from "./SeatbeltProcessor"
 import { configure } from "./rules/configure"
+import { wrapConfigs, wrapProcessor } from "./wrapProcessor"
 const { name, version } = packageJson
 
 /**
@@ -22,6 +23,42 @@ const plugin = {
   rules: {
     configure,
   },
+  /**
+   * Wrap a processor that splits files into code blocks, so seatbelt counts
+   * the errors of all blocks towards the physical file.
+   *
+   * Usage:
+   *
+   * ```
+   * // eslint.config.js
+   * module.exports = [
+   *   require("eslint-seatbelt").configs.enable,
+   *   {
+   *     files: ["**\/*.md"],
+   *     processor: require("eslint-seatbelt").wrapProcessor(
+   *       require("eslint-plugin-markdown").processors.markdown,
+   *     ),
+   *   },
+   * ]
+   * ```
+   */
+  wrapProcessor,
+  /**
+   * Wrap the processors of a plugin's config preset with `wrapProcessor`.
+   *
+   * Usage:
+   *
+   * ```
+   * // eslint.config.js
+   * module.exports = [
+   *   require("eslint-seatbelt").configs.enable,
+   *   ...require("eslint-seatbelt").wrapConfigs(
+   *     require("eslint-plugin-markdown").configs.recommended,
+   *   ),
+   * ]
+   * ```
+   */
+  wrapConfigs,
   /**
    *
    */
@@ -57,7 +94,10 @@ const plugin = {
      */
     "enable-legacy": undefined as any as ReturnType<typeof createLegacyConfig>,
   },
-} satisfies ESLint.Plugin & ESLint.Plugin
+} satisfies ESLint.Plugin & {
+  wrapProcessor: typeof wrapProcessor
+  wrapConfigs: typeof wrapConfigs
+}
 
 plugin.configs.enable = createESLint9Config()
 plugin.configs["enable-legacy"] = createLegacyConfig()
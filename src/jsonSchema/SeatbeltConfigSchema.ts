@@ -10,9 +10,17 @@ export const SeatbeltConfigSchema = {
   properties: {
     seatbeltFile: {
       description:
-        "The seatbelt file stores the max error counts allowed for each file. Should\nbe an absolute path.\n\nIf not provided, $SEATBELT_PWD/eslint.seatbelt.tsv or $PWD/eslint.seatbelt.tsv will be used.\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        // commonjs\n        seatbeltFile: `${__dirname}/eslint.seatbelt.tsv`\n        // esm\n        seatbeltFile: new URL('./eslint.seatbelt.tsv', import.meta.url).pathname\n      }\n    }\n  }\n]\n```\n\nYou can also set this with environment variable `SEATBELT_FILE`:\n\n```bash\nSEATBELT_FILE=.config/custom-seatbelt-file eslint\n```",
+        "The seatbelt file stores the max error counts allowed for each file. Should\nbe an absolute path.\n\nIf not provided, seatbelt uses the nearest existing `eslint.seatbelt.tsv` in\nthe linted file's directory or its ancestors, up to the repository root.\nThis lets each package in a monorepo own its seatbelt file. If there is\nnone, $SEATBELT_PWD/eslint.seatbelt.tsv or $PWD/eslint.seatbelt.tsv will be used.\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        // commonjs\n        seatbeltFile: `${__dirname}/eslint.seatbelt.tsv`\n        // esm\n        seatbeltFile: new URL('./eslint.seatbelt.tsv', import.meta.url).pathname\n      }\n    }\n  }\n]\n```\n\nYou can also set this with environment variable `SEATBELT_FILE`:\n\n```bash\nSEATBELT_FILE=.config/custom-seatbelt-file eslint\n```",
       type: "string",
     },
+    seatbeltFiles: {
+      description:
+        'Map glob patterns to seatbelt files, so different parts of the codebase\ncan have their own seatbelt file, for example to give each team a\nCODEOWNERS-protected budget. The first pattern matching a linted file\nwins. Files that match no pattern use `seatbeltFile` or the default.\n\nPatterns and relative seatbelt file paths are resolved from `root`, or\nthe repository root containing $SEATBELT_PWD or $PWD, so they match the\nsame files when ESLint runs from a subdirectory. The `SEATBELT_FILE`\nenvironment variable overrides this setting for all files.\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        seatbeltFiles: {\n          "packages/ui/**": "packages/ui/eslint.seatbelt.tsv",\n          "packages/{api,server}/**": "backend.seatbelt.tsv",\n        },\n      }\n    }\n  }\n]\n```',
+      type: "object",
+      additionalProperties: {
+        type: "string",
+      },
+    },
     keepRules: {
       description:
         'By default whenever a file is linted and a rule has no errors, that rule\'s\nmax errors for the file is set to zero.\n\nHowever with typescript-eslint, it can be helpful to have two ESLint configs:\n\n- A default ESLint config with only syntactic rules enabled that don\'t\n  require typechecking, that runs on developer machines and in their editor.\n- A CI-only ESLint config with only type-aware rules enabled that requires\n  typechecking. Since these rules require typechecking, they can be too\n  slow to run in interactive contexts.\n\nTo avoid seatbelt from mistakenly removing\n\nTo avoid this, set `keepRules` to the names of *disabled but known rules*\nwhile linting.\n\nExample:\n\n```js\n// Default ESLint config\nmodule.exports = [\n  {\n    settings: {\n      seatbelt: {\n        keepRules: require(\'./eslint-typed.config.js\').flatMap(config => Object.keys(config.rules ?? {})),\n      }\n    },\n    rules: {\n      "no-unused-vars": "error",\n    },\n  }\n]\n\n// Typechecking-required ESLint config for CI\nmodule.exports = [\n  {\n    settings: {\n      seatbelt: {\n        keepRules: require(\'./eslint.config.js\').flatMap(config => Object.keys(config.rules ?? {})),\n      }\n    },\n    rules: {\n      // Requires typechecking (slow)\n      "@typescript-eslint/no-floating-promises": "error",\n    },\n  }\n]\n```\n\nYou can also set this with environment variable `SEATBELT_KEEP`:\n\n```bash\nSEATBELT_KEEP="@typescript-eslint/no-floating-promises',
@@ -47,12 +55,17 @@ export const SeatbeltConfigSchema = {
     },
     frozen: {
       description:
-        "Error if there is any change in the number of errors in the seatbelt file.\nThis is useful in CI to ensures that developers keep the seatbelt file up-to-date as they fix errors.\n\nIt is enabled by default when environment variable `CI` is set.\n\n```bash\nCI=1 eslint\n```\n\nThis can be set with the `SEATBELT_FROZEN` environment variable.\n\n```bash\nSEATBELT_FROZEN=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        frozen: true,\n      }\n    }\n  }\n]",
+        "Error if there is any change in the number of errors in the seatbelt file.\nThis is useful in CI to ensures that developers keep the seatbelt file up-to-date as they fix errors.\n\nIt is enabled by default when environment variable `CI` is set.\n\n```bash\nCI=1 eslint\n```\n\nThis can be set with the `SEATBELT_FROZEN` environment variable.\n\n```bash\nSEATBELT_FROZEN=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        frozen: true,\n      }\n    }\n  }\n]\n```",
       type: "boolean",
     },
+    frozenOutput: {
+      description:
+        "In `frozen` mode, where would-be changes are errors, write the seatbelt\nfile as a non-frozen run would have updated it to this path when ESLint\nexits. CI can upload it so developers can copy it over the seatbelt file\ninstead of re-running ESLint locally. Nothing is written if there are no\nchanges.\n\nIf the path is an existing directory, each seatbelt file is written\ninside it at its path relative to `root`.\n\nThis can be set with the `SEATBELT_FROZEN_OUTPUT` environment variable:\n\n```bash\nCI=1 SEATBELT_FROZEN_OUTPUT=artifacts/eslint.seatbelt.tsv eslint\n```",
+      type: "string",
+    },
     disable: {
       description:
-        "Completely disable seatbelt error processing for a lint run while leaving it otherwise configured.\n\nThis can be set with the `SEATBELT_DISABLE` environment variable.\n\n```bash\nSEATBELT_DISABLE=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        disable: true,\n      }\n    }\n  }\n]",
+        "Completely disable seatbelt error processing for a lint run while leaving it otherwise configured.\n\nThis can be set with the `SEATBELT_DISABLE` environment variable.\n\n```bash\nSEATBELT_DISABLE=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        disable: true,\n      }\n    }\n  }\n]\n```",
       type: "boolean",
     },
     threadsafe: {
@@ -60,6 +73,16 @@ export const SeatbeltConfigSchema = {
         "By default seatbelt assumes that only one ESLint process will read and\nwrite to the seatbelt file at a time.\n\nThis should be set to `true` if you use a parallel ESLint runner similar to\njest-runner-eslint to avoid losing updates during parallel writes to the\nseatbelt file.\n\nWhen enabled, seatbelt creates temporary lock files to serialize updates to\nthe seatbelt file. This comes at a small performance cost.\n\nThis is enabled by default when run with Jest (environment variable `JEST_WORKER_ID` is set).\n\nIt can also be set with environment variable `SEATBELT_THREADSAFE`:\n\n```bash\nSEATBELT_THREADSAFE=1 eslint-parallel\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        threadsafe: true,\n      }\n    }\n  }\n]\n```",
       type: "boolean",
     },
+    fingerprints: {
+      description:
+        "Track each allowed error by a fingerprint instead of only counting them.\n\nWith counts alone, fixing one error and adding a new one of the same\ntype in the same file goes unnoticed. In fingerprint mode, each allowed\nerror is stored with a hash of its rule, message, source code and the\nsurrounding lines, but not its line number, so it still matches when code\nabove it moves. Errors whose fingerprint isn't in the seatbelt file are\nreported as errors even if the count didn't increase.\n\nExisting count-only entries are converted to fingerprints the next time\ntheir file is linted without `frozen`, as long as the file is within its\nbudget.\n\nThis can be set with the `SEATBELT_FINGERPRINTS` environment variable:\n\n```bash\nSEATBELT_FINGERPRINTS=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        fingerprints: true,\n      }\n    }\n  }\n]\n```",
+      type: "boolean",
+    },
+    dryRun: {
+      description:
+        "Compute seatbelt file updates as usual, but don't write them. When the\nESLint CLI exits, print a diff of the max errors that would have been\nincreased, decreased or removed.\n\nUseful to preview the effect of `SEATBELT_INCREASE` before running it for\nreal. Has no effect when `frozen` is set, since nothing would change.\n\nThis can be set with the `SEATBELT_DRY_RUN` environment variable:\n\n```bash\nSEATBELT_DRY_RUN=1 SEATBELT_INCREASE=ALL eslint\n```",
+      type: "boolean",
+    },
     verbose: {
       description:
         "Enable verbose logging.\n\nThis can be set with the `SEATBELT_VERBOSE` environment variable.\n\n```bash\nSEATBELT_VERBOSE=1 eslint\n```\n\nOr in ESLint config:\n\n```js\n// in eslint.config.js\nconst config = [\n  {\n    settings: {\n      seatbelt: {\n        verbose: true,\n      }\n    }\n  }\n]\n```\n\nIf set to a function (like `console.error`), that function will be called with the log messages.\nThe default logger when set to `true` is `console.error`.",
@@ -77,6 +100,65 @@ export const SeatbeltConfigSchema = {
         "Repository or project root.\nBy default this is inferred from `seatbeltFile` by checking ancestor directories for `.git`.\nUsed for editor integration to disable seatbelt during git actions like rebase or merge.\n\nThis can be set with the `SEATBELT_ROOT` environment variable.",
       type: "string",
     },
+    lockTimeout: {
+      description:
+        "How long to wait for the seatbelt file lock in `threadsafe` mode, in\nmilliseconds. If the lock can't be acquired in time, linting the file fails\nwith an error. Default: 10000 (10 seconds).\n\nThis can be set with the `SEATBELT_LOCK_TIMEOUT` environment variable.\n\n```bash\nSEATBELT_THREADSAFE=1 SEATBELT_LOCK_TIMEOUT=30000 eslint-parallel\n```",
+      type: "number",
+    },
+    storage: {
+      description:
+        "How the seatbelt file is stored:\n\n- `tsv`: tab-separated JSON lines, easy to review and merge. The default.\n- `json`: a single JSON object.\n- `sqlite`: a SQLite database with a `seatbelt_entries` table, for\n  querying budgets with SQL. Requires Node.js 22.5 or later.\n\nBy default this is inferred from the extension of `seatbeltFile`: `.json`\nfor `json`, `.sqlite`, `.sqlite3` or `.db` for `sqlite`, otherwise `tsv`.\n\nThis can be set with the `SEATBELT_STORAGE` environment variable:\n\n```bash\nSEATBELT_FILE=eslint.seatbelt.db SEATBELT_STORAGE=sqlite eslint\n```",
+      enum: ["json", "sqlite", "tsv"],
+      type: "string",
+    },
+    allowedSeverity: {
+      description:
+        "How errors allowed by the seatbelt file are reported:\n\n- `warn`: downgraded to warnings. The default.\n- `suppress`: moved to ESLint's suppressed messages with the suppression\n  kind `eslint-seatbelt`, like errors disabled by an\n  `eslint-disable` comment. ESLint versions before 8.8 don't support\n  suppressed messages, so they are dropped instead.\n- `off`: dropped entirely.\n\nUse `suppress` or `off` to keep allowed errors out of\n`eslint --max-warnings 0` and editor squiggles. Errors over the limit and\n`frozen` mismatches are reported as errors in every mode.\n\nThis can be set with the `SEATBELT_ALLOWED_SEVERITY` environment variable:\n\n```bash\nSEATBELT_ALLOWED_SEVERITY=suppress eslint --max-warnings 0\n```",
+      enum: ["off", "suppress", "warn"],
+      type: "string",
+    },
+    messageSuffix: {
+      description:
+        'Append an explanation like "This file is temporarily allowed to have 2\nerrors of this type" to the text of lint messages changed by seatbelt.\nDefault: true.\n\nChanged messages always have a `seatbelt` property with the same\ninformation in a machine-readable form, see `SeatbeltMessageData`. Set\nthis to false if your formatter or tooling reads that instead.\n\nThis can be set with the `SEATBELT_MESSAGE_SUFFIX` environment variable:\n\n```bash\nSEATBELT_MESSAGE_SUFFIX=0 eslint --format json\n```',
+      type: "boolean",
+    },
+    locale: {
+      description:
+        "Language of the explanations appended to lint messages: `en` (the\ndefault) or `de`.\n\nThis can be set with the `SEATBELT_LOCALE` environment variable:\n\n```bash\nSEATBELT_LOCALE=de eslint\n```",
+      enum: ["de", "en"],
+      type: "string",
+    },
+    messages: {
+      description:
+        'Custom templates for the explanations appended to lint messages, by the\nstatus of the message. Statuses without a template use the `locale`.\n\nTemplates can use these placeholders:\n\n- `{errorCount}`: errors of the rule in the linted file.\n- `{maxErrorCount}`: errors of the rule allowed in the linted file.\n- `{excessCount}`: errors over the allowed count.\n- `{fixedCount}`: errors under the allowed count.\n- `{ruleId}`, `{filename}` and `{seatbeltFile}`.\n- `{fixCommand}`: a command that updates the seatbelt file.\n- `{pattern}`: the aggregate budget pattern, only for `aggregate-budget`.\n- `{expiresAt}`: the deadline, only for `expired`.\n\nCount placeholders can have a singular and plural form, where `#` is the\ncount: `{errorCount|# error|# errors}`. Unknown placeholders are an error.\n\n```js\n// in eslint.config.js\nsettings: {\n  seatbelt: {\n    messages: {\n      "over-limit": "{excessCount|# new error|# new errors} of this type. See https://wiki.example.com/lint-debt",\n    },\n  },\n}\n```',
+      type: "object",
+      properties: {
+        "at-limit": {
+          type: "string",
+        },
+        "under-limit": {
+          type: "string",
+        },
+        "over-limit": {
+          type: "string",
+        },
+        "increase-allowed": {
+          type: "string",
+        },
+        "frozen-mismatch": {
+          type: "string",
+        },
+        "aggregate-budget": {
+          type: "string",
+        },
+        "new-fingerprint": {
+          type: "string",
+        },
+        expired: {
+          type: "string",
+        },
+      },
+    },
   },
   $schema: "http://json-schema.org/draft-07/schema#",
 } satisfies Schema
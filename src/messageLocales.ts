@@ -0,0 +1,44 @@
+import type { SeatbeltMessageTemplates } from "./SeatbeltMessage"
+
+export type SeatbeltLocale = "en" | "de"
+
+export const DEFAULT_LOCALE: SeatbeltLocale = "en"
+
+/** Bundled message templates, see the `locale` config. */
+export const SEATBELT_MESSAGE_LOCALES: Record<
+  SeatbeltLocale,
+  Required<SeatbeltMessageTemplates>
+> = {
+  en: {
+    "at-limit": `This file is temporarily allowed to have {maxErrorCount|# error|# errors} of this type.
+Please tend the garden by fixing if you have the time.`,
+    "under-limit": `This file is temporarily allowed to have {maxErrorCount|# error|# errors} of this type.
+Thank you for fixing {fixedCount|one|# errors}, it really helps.`,
+    "over-limit": `There are {errorCount|# error|# errors} of this type, but only {maxErrorCount} are allowed.
+Remove {excessCount} to turn these errors into warnings.`,
+    "increase-allowed": `SEATBELT_INCREASE: Temporarily allowing {excessCount|# new error|# new errors} of this type.`,
+    "frozen-mismatch": `SEATBELT_FROZEN: Expected {maxErrorCount|# error|# errors}, found {errorCount}.
+If you fixed {fixedCount|# error|# errors}, thank you, but you'll need to update the seatbelt file to match.
+Try running \`{fixCommand}\`, then committing {seatbeltFile}.`,
+    "aggregate-budget": `This file has {errorCount|# error|# errors} of this type, counted towards the budget of {maxErrorCount} for all files matching \`{pattern}\`.`,
+    "new-fingerprint": `This is a new error of this type. Only the {maxErrorCount|# existing error|# existing errors} recorded in the seatbelt file {maxErrorCount|is|are} temporarily allowed.`,
+    expired: `This file was allowed to have {maxErrorCount|# error|# errors} of this type until {expiresAt}, but that deadline has passed.
+Fix {errorCount|it|them}, or move the deadline in the seatbelt file if you need more time.`,
+  },
+  de: {
+    "at-limit": `Diese Datei darf vorübergehend {maxErrorCount} Fehler dieser Art haben.
+Bitte behebe sie, wenn du Zeit hast.`,
+    "under-limit": `Diese Datei darf vorübergehend {maxErrorCount} Fehler dieser Art haben.
+Danke, dass du {fixedCount|einen|#} behoben hast, das hilft sehr.`,
+    "over-limit": `Es gibt {errorCount} Fehler dieser Art, aber nur {maxErrorCount} {maxErrorCount|ist|sind} erlaubt.
+Behebe {excessCount}, um diese Fehler in Warnungen umzuwandeln.`,
+    "increase-allowed": `SEATBELT_INCREASE: {excessCount|# neuer Fehler|# neue Fehler} dieser Art vorübergehend erlaubt.`,
+    "frozen-mismatch": `SEATBELT_FROZEN: {maxErrorCount} Fehler erwartet, {errorCount} gefunden.
+Falls du {fixedCount} Fehler behoben hast: danke! Die Seatbelt-Datei muss aber angepasst werden.
+Führe \`{fixCommand}\` aus und committe dann {seatbeltFile}.`,
+    "aggregate-budget": `Diese Datei hat {errorCount} Fehler dieser Art. Sie zählen zum Budget von {maxErrorCount} für alle Dateien, die auf \`{pattern}\` passen.`,
+    "new-fingerprint": `Das ist ein neuer Fehler dieser Art. Nur {maxErrorCount|der bestehende Fehler|die # bestehenden Fehler} aus der Seatbelt-Datei {maxErrorCount|ist|sind} vorübergehend erlaubt.`,
+    expired: `Diese Datei durfte bis {expiresAt} {maxErrorCount} Fehler dieser Art haben, aber die Frist ist abgelaufen.
+Behebe {errorCount|ihn|sie} oder verschiebe die Frist in der Seatbelt-Datei, falls du mehr Zeit brauchst.`,
+  },
+}
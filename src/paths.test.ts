@@ -0,0 +1,109 @@
+import { test, describe } from "node:test"
+import assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import {
+  clearRealpathCache,
+  normalizeSeatbeltPath,
+  realpathOrResolve,
+} from "./paths"
+import { SeatbeltFile } from "./SeatbeltFile"
+
+describe("normalizeSeatbeltPath", () => {
+  test("converts Windows separators", () => {
+    assert.strictEqual(
+      normalizeSeatbeltPath(path.win32.join("src", "components", "a.ts")),
+      "src/components/a.ts",
+    )
+    assert.strictEqual(
+      normalizeSeatbeltPath(
+        path.win32.relative("C:\\repo", "C:\\repo\\src\\a.ts"),
+      ),
+      "src/a.ts",
+    )
+  })
+
+  test("removes ./, .. and duplicate separators", () => {
+    assert.strictEqual(normalizeSeatbeltPath("./src/a.ts"), "src/a.ts")
+    assert.strictEqual(normalizeSeatbeltPath("src//lib/../a.ts"), "src/a.ts")
+    assert.strictEqual(
+      normalizeSeatbeltPath("../shared/a.ts"),
+      "../shared/a.ts",
+    )
+  })
+
+  test("uses NFC", () => {
+    const nfd = "src/cafe\u0301.ts"
+    assert.strictEqual(normalizeSeatbeltPath(nfd), "src/caf\u00e9.ts")
+  })
+})
+
+describe("realpathOrResolve", () => {
+  test("resolves symlinks, including for missing files", async () => {
+    const tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-paths-")),
+    )
+    try {
+      fs.mkdirSync(path.join(tmpDir, "repo/src"), { recursive: true })
+      fs.writeFileSync(path.join(tmpDir, "repo/src/a.ts"), "")
+      fs.symlinkSync(path.join(tmpDir, "repo"), path.join(tmpDir, "link"))
+
+      assert.strictEqual(
+        realpathOrResolve(path.join(tmpDir, "link/src/a.ts")),
+        path.join(tmpDir, "repo/src/a.ts"),
+      )
+      assert.strictEqual(
+        realpathOrResolve(path.join(tmpDir, "link/src/missing/b.ts")),
+        path.join(tmpDir, "repo/src/missing/b.ts"),
+      )
+
+      // A seatbelt file opened through the symlink stores the same keys.
+      const seatbeltFile = new SeatbeltFile(
+        path.join(tmpDir, "link/eslint.seatbelt.tsv"),
+        new Map(),
+      )
+      assert.strictEqual(
+        seatbeltFile.toRelativePath(path.join(tmpDir, "repo/src/a.ts")),
+        "src/a.ts",
+      )
+      assert.strictEqual(
+        seatbeltFile.toRelativePath(path.join(tmpDir, "link/src/a.ts")),
+        "src/a.ts",
+      )
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true })
+    }
+  })
+
+  test("clearRealpathCache() and readSync() see changed symlinks", async () => {
+    const tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-paths-")),
+    )
+    try {
+      fs.mkdirSync(path.join(tmpDir, "old"))
+      fs.mkdirSync(path.join(tmpDir, "new"))
+      const link = path.join(tmpDir, "link")
+      fs.symlinkSync(path.join(tmpDir, "old"), link)
+      const seatbeltFile = new SeatbeltFile(
+        path.join(link, "eslint.seatbelt.tsv"),
+        new Map(),
+      )
+      assert.strictEqual(
+        seatbeltFile.toRelativePath(path.join(tmpDir, "old/a.ts")),
+        "a.ts",
+      )
+
+      fs.unlinkSync(link)
+      fs.symlinkSync(path.join(tmpDir, "new"), link)
+      clearRealpathCache()
+      seatbeltFile.readSync()
+      assert.strictEqual(
+        seatbeltFile.toRelativePath(path.join(tmpDir, "new/a.ts")),
+        "a.ts",
+      )
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true })
+    }
+  })
+})
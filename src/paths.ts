@@ -0,0 +1,49 @@
+import * as fs from "node:fs"
+import path from "node:path"
+import { isErrno } from "./errorHanding"
+
+/**
+ * Normalize a relative filename to the form stored in seatbelt files: POSIX
+ * separators, Unicode NFC, and no `.`, `..` or empty segments. Backslashes are
+ * treated as separators so entries written on Windows match.
+ */
+export function normalizeSeatbeltPath(filename: string): string {
+  const normalized = path.posix.normalize(
+    filename.replace(/\\/g, "/").normalize("NFC"),
+  )
+  return normalized.length > 1 ? normalized.replace(/\/$/, "") : normalized
+}
+
+const realpathCache = new Map<string, string>()
+
+/**
+ * Resolve symlinks in an absolute `filename`. Paths that don't exist have
+ * their nearest existing ancestor resolved instead.
+ */
+export function realpathOrResolve(filename: string): string {
+  let realpath = realpathCache.get(filename)
+  if (realpath === undefined) {
+    try {
+      realpath = fs.realpathSync(filename)
+    } catch (e) {
+      if (!isErrno(e, "ENOENT") && !isErrno(e, "ENOTDIR")) {
+        throw e
+      }
+      const parent = path.dirname(filename)
+      realpath =
+        parent === filename
+          ? filename
+          : path.join(realpathOrResolve(parent), path.basename(filename))
+    }
+    realpathCache.set(filename, realpath)
+  }
+  return realpath
+}
+
+/**
+ * Forget the realpaths resolved so far. Long-lived processes like editors
+ * call this before each run so they see symlinks that changed since.
+ */
+export function clearRealpathCache() {
+  realpathCache.clear()
+}
@@ -0,0 +1,140 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import { spawn } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { SEATBELT_FILE_NAME, SeatbeltConfig } from "./SeatbeltConfig"
+
+describe("configToArgs", () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-globals-")),
+    )
+    fs.mkdirSync(path.join(tmpDir, ".git"))
+    fs.mkdirSync(path.join(tmpDir, "pkg/ui"), { recursive: true })
+    fs.mkdirSync(path.join(tmpDir, "pkg/api"), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, SEATBELT_FILE_NAME), "")
+    fs.writeFileSync(path.join(tmpDir, "pkg", SEATBELT_FILE_NAME), "")
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  /**
+   * Resolve the seatbelt file for `filename` in a fresh process, since
+   * environment variables are only read once per process.
+   */
+  function seatbeltFileFor(
+    config: SeatbeltConfig,
+    filename: string,
+    options: { cwd?: string; env?: NodeJS.ProcessEnv } = {},
+  ) {
+    const parentEnv = { ...process.env }
+    for (const key of Object.keys(parentEnv)) {
+      if (key.startsWith("SEATBELT_")) {
+        delete parentEnv[key]
+      }
+    }
+    const script = `
+      const { ruleOverrideConfigToArgs } = require(${JSON.stringify(path.join(__dirname, "pluginGlobals.ts"))})
+      const args = ruleOverrideConfigToArgs(${JSON.stringify(config)}, undefined, ${JSON.stringify(filename)})
+      process.stdout.write(args.seatbeltFile)
+    `
+    const child = spawn(
+      process.execPath,
+      ["--require", require.resolve("tsx/cjs"), "-e", script],
+      {
+        cwd: options.cwd ?? tmpDir,
+        env: { ...parentEnv, ...options.env },
+      },
+    )
+    let stdout = ""
+    let stderr = ""
+    child.stdout.on("data", (data) => (stdout += data))
+    child.stderr.on("data", (data) => (stderr += data))
+    return new Promise<string>((resolve, reject) => {
+      child.on("error", reject)
+      child.on("close", (code) =>
+        code === 0
+          ? resolve(stdout)
+          : reject(new Error(`exited with code ${code}: ${stderr}`)),
+      )
+    })
+  }
+
+  const config: SeatbeltConfig = {
+    seatbeltFile: "/configured.seatbelt.tsv",
+    seatbeltFiles: { "pkg/ui/**": "ui.seatbelt.tsv" },
+  }
+
+  test("SEATBELT_FILE overrides everything", async () => {
+    const seatbeltFile = path.join(tmpDir, "env.seatbelt.tsv")
+    assert.strictEqual(
+      await seatbeltFileFor(config, path.join(tmpDir, "pkg/ui/button.js"), {
+        env: { SEATBELT_FILE: seatbeltFile },
+      }),
+      seatbeltFile,
+    )
+  })
+
+  test("then the first matching pattern", async () => {
+    assert.strictEqual(
+      await seatbeltFileFor(config, path.join(tmpDir, "pkg/ui/button.js")),
+      path.join(tmpDir, "ui.seatbelt.tsv"),
+    )
+  })
+
+  test("patterns are resolved from the repository root", async () => {
+    assert.strictEqual(
+      await seatbeltFileFor(config, path.join(tmpDir, "pkg/ui/button.js"), {
+        cwd: path.join(tmpDir, "pkg"),
+      }),
+      path.join(tmpDir, "ui.seatbelt.tsv"),
+    )
+  })
+
+  test("patterns are resolved from root when set", async () => {
+    assert.strictEqual(
+      await seatbeltFileFor(
+        { ...config, root: "pkg" },
+        path.join(tmpDir, "pkg/ui/button.js"),
+      ),
+      "/configured.seatbelt.tsv",
+    )
+    assert.strictEqual(
+      await seatbeltFileFor(
+        { ...config, root: "pkg" },
+        path.join(tmpDir, "pkg/pkg/ui/button.js"),
+      ),
+      path.join(tmpDir, "pkg/ui.seatbelt.tsv"),
+    )
+  })
+
+  test("then seatbeltFile", async () => {
+    assert.strictEqual(
+      await seatbeltFileFor(config, path.join(tmpDir, "pkg/api/server.js")),
+      "/configured.seatbelt.tsv",
+    )
+  })
+
+  test("then the nearest seatbelt file", async () => {
+    const { seatbeltFiles } = config
+    assert.strictEqual(
+      await seatbeltFileFor(
+        { seatbeltFiles },
+        path.join(tmpDir, "pkg/api/server.js"),
+      ),
+      path.join(tmpDir, "pkg", SEATBELT_FILE_NAME),
+    )
+    assert.strictEqual(
+      await seatbeltFileFor({ seatbeltFiles }, path.join(tmpDir, "server.js"), {
+        cwd: path.join(tmpDir, "pkg"),
+      }),
+      path.join(tmpDir, SEATBELT_FILE_NAME),
+    )
+  })
+})
@@ -4,17 +4,34 @@
 
 import {
   FallbackEnv,
+  formatFilename,
+  formatRuleId,
   logStderr,
   padVarName,
+  SEATBELT_DRY_RUN,
+  SEATBELT_FROZEN,
+  SEATBELT_FROZEN_OUTPUT,
   SEATBELT_VERBOSE,
   SeatbeltArgs,
   SeatbeltConfig,
   SeatbeltConfigWithPwd,
   SeatbeltEnv,
+  SeatbeltStorage,
 } from "./SeatbeltConfig"
-import { SeatbeltFile } from "./SeatbeltFile"
+import {
+  RULE_CAPS_FILENAME,
+  RuleId,
+  SeatbeltAggregateViolation,
+} from "./SeatbeltFile"
+import { SeatbeltDiff } from "./SeatbeltDiff"
+import { SeatbeltStats } from "./SeatbeltStats"
+import { SeatbeltStore } from "./SeatbeltStore"
+import { globToRegExp } from "./globs"
+import { findRepoRoot } from "./repoIntegration"
 import { name, version } from "../package.json"
 import fs from "node:fs"
+import { createRequire } from "node:module"
+import path from "node:path"
 
 let ANY_CONFIG_DISABLED = false
 let LAST_VERBOSE_ARGS: SeatbeltArgs | undefined
@@ -22,8 +39,27 @@ const VERBOSE_SEATBELT_FILES = new Set<string>()
 const CLI_ARGS = new Set<SeatbeltArgs>()
 
 const EMPTY_CONFIG: SeatbeltConfig = {}
-const argsCache = new WeakMap<SeatbeltConfig, SeatbeltArgs>()
-const seatbeltFileCache = new Map<string, SeatbeltFile>()
+const seatbeltFilePatternsCache = new WeakMap<
+  SeatbeltConfigWithPwd,
+  {
+    root: string
+    patterns: Array<[pattern: RegExp, seatbeltFile: string]>
+  }
+>()
+const compiledConfigCache = new WeakMap<SeatbeltConfig, SeatbeltConfigWithPwd>()
+const argsCache = new WeakMap<
+  SeatbeltConfig,
+  Map</* seatbelt file */ string, SeatbeltArgs>
+>()
+const seatbeltFileCache = new Map<string, SeatbeltStore>()
+const deferredSeatbeltFiles = new Set<SeatbeltStore>()
+/** Changes to these are never written, see `dryRun`. */
+const dryRunSeatbeltFiles = new Map<SeatbeltStore, SeatbeltArgs>()
+/** Copies of frozen seatbelt files updated as if not frozen, see `frozenOutput`. */
+const frozenOutputCopies = new Map<
+  SeatbeltStore,
+  { copy: SeatbeltStore; args: SeatbeltArgs }
+>()
 const mergedConfigCache = new WeakMap<
   /* settings.seatbelt */ SeatbeltConfig,
   WeakMap</* from rule settings override*/ SeatbeltConfig, SeatbeltConfig>
@@ -59,6 +95,7 @@ function getProcessEnvOverrideConfig(): SeatbeltConfigWithPwd {
 export function ruleOverrideConfigToArgs(
   settingsConfig: SeatbeltConfig | undefined,
   ruleOverrideConfig: SeatbeltConfig | undefined,
+  filename?: string,
 ): SeatbeltArgs {
   if (settingsConfig && ruleOverrideConfig) {
     let settingsConfigMergeMap = mergedConfigCache.get(settingsConfig)
@@ -71,20 +108,48 @@ export function ruleOverrideConfigToArgs(
       mergedConfig = { ...settingsConfig, ...ruleOverrideConfig }
       settingsConfigMergeMap.set(ruleOverrideConfig, mergedConfig)
     }
-    return configToArgs(mergedConfig)
+    return configToArgs(mergedConfig, filename)
   }
-  return configToArgs(ruleOverrideConfig ?? settingsConfig ?? EMPTY_CONFIG)
+  return configToArgs(
+    ruleOverrideConfig ?? settingsConfig ?? EMPTY_CONFIG,
+    filename,
+  )
 }
 
-function configToArgs(config: SeatbeltConfig): SeatbeltArgs {
-  let args = argsCache.get(config)
-  if (!args) {
-    const compiledConfig = {
+function getCompiledConfig(config: SeatbeltConfig): SeatbeltConfigWithPwd {
+  let compiledConfig = compiledConfigCache.get(config)
+  if (!compiledConfig) {
+    compiledConfig = {
       ...getProcessEnvFallbackConfig(),
       ...config,
       ...getProcessEnvOverrideConfig(),
     }
-    args = SeatbeltArgs.fromConfig(compiledConfig)
+    compiledConfigCache.set(config, compiledConfig)
+  }
+  return compiledConfig
+}
+
+function configToArgs(config: SeatbeltConfig, filename?: string): SeatbeltArgs {
+  const compiledConfig = getCompiledConfig(config)
+  const absoluteFilename = filename ? path.resolve(filename) : undefined
+  // SEATBELT_FILE overrides everything, then the first matching pattern,
+  // then the configured seatbelt file. Otherwise each file uses the nearest one.
+  const seatbeltFile =
+    getProcessEnvOverrideConfig().seatbeltFile ??
+    matchSeatbeltFiles(compiledConfig, absoluteFilename) ??
+    compiledConfig.seatbeltFile ??
+    SeatbeltArgs.findSeatbeltFile(
+      compiledConfig.pwd,
+      absoluteFilename ? path.dirname(absoluteFilename) : undefined,
+    )
+  let argsBySeatbeltFile = argsCache.get(config)
+  if (!argsBySeatbeltFile) {
+    argsBySeatbeltFile = new Map()
+    argsCache.set(config, argsBySeatbeltFile)
+  }
+  let args = argsBySeatbeltFile.get(seatbeltFile)
+  if (!args) {
+    args = SeatbeltArgs.fromConfig({ ...compiledConfig, seatbeltFile })
     ANY_CONFIG_DISABLED ||= args.disable
     if (args.verbose) {
       LAST_VERBOSE_ARGS = args
@@ -93,11 +158,45 @@ function configToArgs(config: SeatbeltConfig): SeatbeltArgs {
         logConfig(args, config)
       }
     }
-    argsCache.set(config, args)
+    argsBySeatbeltFile.set(seatbeltFile, args)
   }
   return args
 }
 
+function matchSeatbeltFiles(
+  config: SeatbeltConfigWithPwd,
+  filename: string | undefined,
+): string | undefined {
+  if (!config.seatbeltFiles || !filename) {
+    return undefined
+  }
+  let compiled = seatbeltFilePatternsCache.get(config)
+  if (!compiled) {
+    // Resolve from the root so patterns match the same files no matter which
+    // directory ESLint runs from.
+    const root = config.root
+      ? path.resolve(config.pwd, config.root)
+      : (findRepoRoot(config.pwd) ?? config.pwd)
+    compiled = {
+      root,
+      patterns: Object.entries(config.seatbeltFiles).map(
+        ([glob, seatbeltFile]) => [
+          globToRegExp(glob),
+          path.resolve(root, seatbeltFile),
+        ],
+      ),
+    }
+    seatbeltFilePatternsCache.set(config, compiled)
+  }
+  const relativeFilename = path
+    .relative(compiled.root, filename)
+    .split(path.sep)
+    .join("/")
+  return compiled.patterns.find(([pattern]) =>
+    pattern.test(relativeFilename),
+  )?.[1]
+}
+
 const configureRuleName = `${name}/configure`
 
 function logRuleSetupHint() {
@@ -132,7 +231,7 @@ export function pushFileArgs(filename: string, args: SeatbeltArgs) {
 }
 
 export function popFileArgs(filename: string): SeatbeltArgs {
-  const args = temporaryFileArgs.get(filename)
+  const args = temporaryFileArgs.get(filename) ?? popCodeBlockArgs(filename)
   temporaryFileArgs.delete(filename)
   if (args) {
     return args
@@ -152,13 +251,38 @@ You may have rule ${configureRuleName} enabled for some files, but not this one.
     }
     logRuleSetupHint()
   }
-  return configToArgs(EMPTY_CONFIG)
+  return configToArgs(EMPTY_CONFIG, filename)
 }
 
-export function getSeatbeltFile(filename: string): SeatbeltFile {
+/**
+ * Args pushed while linting the code blocks of `filename`, like
+ * `README.md/0_0.js`. Blocks of one file share their config, so any will do.
+ */
+function popCodeBlockArgs(filename: string): SeatbeltArgs | undefined {
+  let args: SeatbeltArgs | undefined
+  for (const [blockFilename, blockArgs] of temporaryFileArgs) {
+    if (
+      blockFilename.startsWith(filename + "/") ||
+      blockFilename.startsWith(filename + path.sep)
+    ) {
+      args ??= blockArgs
+      temporaryFileArgs.delete(blockFilename)
+    }
+  }
+  return args
+}
+
+/**
+ * The cached store for `filename`. `storage` is only used when the file is
+ * first opened, and is inferred from the extension by default.
+ */
+export function getSeatbeltFile(
+  filename: string,
+  storage?: SeatbeltStorage,
+): SeatbeltStore {
   let seatbeltFile = seatbeltFileCache.get(filename)
   if (!seatbeltFile) {
-    seatbeltFile = SeatbeltFile.openSync(filename)
+    seatbeltFile = SeatbeltStore.openSync(filename, storage)
     seatbeltFileCache.set(filename, seatbeltFile)
   }
   return seatbeltFile
@@ -212,12 +336,51 @@ export function incrementStat(key: keyof typeof pluginStats, value = 1) {
   pluginStats[key] += value
 }
 
-export function onPreprocess(_filename: string) {
+/** Source text from preprocess, kept until postprocess for fingerprints. */
+const sourceTexts = new Map<string, string>()
+
+export function onPreprocess(filename: string, text: string) {
   incrementStat("processorRuns")
+  sourceTexts.set(filename, text)
+}
+
+export function popSourceText(filename: string): string | undefined {
+  const text = sourceTexts.get(filename)
+  sourceTexts.delete(filename)
+  return text
 }
 
 export function onPostprocess(_filename: string) {}
 
+/** Physical files currently split into code blocks by a wrapped processor. */
+const wrappedFilenames = new Set<string>()
+
+export function onWrappedPreprocess(filename: string) {
+  wrappedFilenames.add(filename)
+}
+
+export function onWrappedPostprocess(filename: string) {
+  wrappedFilenames.delete(filename)
+}
+
+/**
+ * True if `filename` is a code block like `README.md/0_0.js` of a file being
+ * processed by `wrapProcessor`, so the wrapper counts its errors.
+ */
+export function isWrappedCodeBlock(filename: string): boolean {
+  if (wrappedFilenames.size === 0) {
+    return false
+  }
+  let parent = path.dirname(filename)
+  while (parent !== path.dirname(parent)) {
+    if (wrappedFilenames.has(parent)) {
+      return true
+    }
+    parent = path.dirname(parent)
+  }
+  return false
+}
+
 export function onConfigureRule(_filename: string) {
   incrementStat("ruleRuns")
 }
@@ -236,13 +399,76 @@ export function registerEslintCliExitHandler() {
   }
 }
 
+/**
+ * In the ESLint CLI, changes to the seatbelt file are kept in memory and
+ * written once when ESLint exits, instead of after every linted file.
+ *
+ * Returns false if the caller should flush changes itself: in threadsafe mode
+ * other processes need to see our updates, and other runners like editors
+ * and the Node.js API have no exit to wait for. In `dryRun` mode changes are
+ * never flushed, and the ESLint CLI prints them on exit instead.
+ */
+export function deferFlush(args: SeatbeltArgs, seatbeltFile: SeatbeltStore) {
+  if (args.dryRun) {
+    registerEslintCliExitHandler()
+    dryRunSeatbeltFiles.set(seatbeltFile, args)
+    return true
+  }
+  if (args.threadsafe || !isEslintCli()) {
+    return false
+  }
+  registerEslintCliExitHandler()
+  deferredSeatbeltFiles.add(seatbeltFile)
+  return true
+}
+
+/**
+ * In `frozen` mode with `frozenOutput`, apply the error counts of `filename`
+ * to a copy of the seatbelt file, to be written to `frozenOutput` on exit.
+ */
+export function updateFrozenOutput(
+  args: SeatbeltArgs,
+  seatbeltFile: SeatbeltStore,
+  filename: string,
+  ruleToErrorCount: ReadonlyMap<RuleId, number>,
+  ruleToFingerprints: ReadonlyMap<RuleId, readonly string[]> | undefined,
+) {
+  if (!args.frozen || !args.frozenOutput) {
+    return
+  }
+  let frozenOutput = frozenOutputCopies.get(seatbeltFile)
+  if (!frozenOutput) {
+    registerEslintCliExitHandler()
+    frozenOutput = {
+      copy: SeatbeltStore.openSync(seatbeltFile.filename, args.storage),
+      args: { ...args, frozen: false },
+    }
+    frozenOutputCopies.set(seatbeltFile, frozenOutput)
+  }
+  frozenOutput.copy.updateMaxErrors(
+    filename,
+    frozenOutput.args,
+    ruleToErrorCount,
+    ruleToFingerprints,
+  )
+}
+
 // Detect configuration errors
 function handleEslintCliExit(_runContext: RunContext) {
   if (ANY_CONFIG_DISABLED) {
     return
   }
 
-  cleanUpRemovedFiles()
+  try {
+    cleanUpRemovedFiles()
+    checkBudgets()
+    flushDeferredChanges()
+    logDryRunChanges()
+    writeFrozenOutput()
+  } catch (e) {
+    logStderr("failed to update seatbelt file:", e)
+    process.exitCode ||= 2
+  }
 
   if (LAST_VERBOSE_ARGS) {
     logEslintRunSummary()
@@ -251,16 +477,170 @@ function handleEslintCliExit(_runContext: RunContext) {
 
 function cleanUpRemovedFiles() {
   for (const args of CLI_ARGS) {
-    const seatbeltFile = getSeatbeltFile(args.seatbeltFile)
-    // TODO: args.threadsafe
+    const seatbeltFile = getSeatbeltFile(args.seatbeltFile, args.storage)
+    if (args.threadsafe && !args.frozen && !args.dryRun) {
+      seatbeltFile.withLockSync(args.lockTimeout, () =>
+        removeNonExistentFiles(seatbeltFile, args),
+      )
+    } else {
+      removeNonExistentFiles(seatbeltFile, args)
+    }
+  }
+}
+
+function removeNonExistentFiles(
+  seatbeltFile: SeatbeltStore,
+  args: SeatbeltArgs,
+) {
+  if (
+    !deferredSeatbeltFiles.has(seatbeltFile) &&
+    !dryRunSeatbeltFiles.has(seatbeltFile)
+  ) {
     seatbeltFile.readSync()
-    for (const filename of seatbeltFile.filenames()) {
-      if (!fs.existsSync(filename)) {
-        seatbeltFile.removeFile(filename, args)
-        incrementStat("removedFiles")
-      }
+  }
+  for (const filename of seatbeltFile.filenames()) {
+    if (!fs.existsSync(filename)) {
+      seatbeltFile.removeFile(filename, args)
+      incrementStat("removedFiles")
+    }
+  }
+  if (!args.dryRun) {
+    seatbeltFile.flushChanges()
+  }
+}
+
+/**
+ * Aggregate budgets and rule caps sum errors over many files, so they can
+ * only be checked once every file has been linted.
+ */
+function checkBudgets() {
+  const checked = new Set<SeatbeltStore>()
+  for (const args of CLI_ARGS) {
+    const seatbeltFile = getSeatbeltFile(args.seatbeltFile, args.storage)
+    if (
+      checked.has(seatbeltFile) ||
+      (!seatbeltFile.hasAggregateBudgets() && !seatbeltFile.getRuleCaps())
+    ) {
+      continue
+    }
+    checked.add(seatbeltFile)
+    const violations =
+      args.threadsafe && !args.frozen && !args.dryRun
+        ? seatbeltFile.withLockSync(args.lockTimeout, () => {
+            seatbeltFile.readSync()
+            const violations = updateBudgets(seatbeltFile, args)
+            seatbeltFile.flushChanges()
+            return violations
+          })
+        : updateBudgets(seatbeltFile, args)
+    if (violations.length === 0) {
+      continue
+    }
+    logStderr(
+      [
+        `${formatFilename(seatbeltFile.filename)}: budgets not met:`,
+        ...violations.map((violation) =>
+          formatBudgetViolation(seatbeltFile, violation),
+        ),
+      ].join("\n"),
+    )
+    process.exitCode ||= 1
+  }
+}
+
+function updateBudgets(seatbeltFile: SeatbeltStore, args: SeatbeltArgs) {
+  const violations = seatbeltFile.updateAggregateBudgets(args)
+  const allowedTotals = new Map(
+    SeatbeltStats.fromFiles([seatbeltFile]).byRule.map((row) => [
+      row.name,
+      row.allowed,
+    ]),
+  )
+  return violations.concat(seatbeltFile.updateRuleCaps(args, allowedTotals))
+}
+
+function formatBudgetViolation(
+  seatbeltFile: SeatbeltStore,
+  { pattern, ruleId, maxErrors, errorCount, kind }: SeatbeltAggregateViolation,
+) {
+  if (pattern === RULE_CAPS_FILENAME) {
+    return `  ${formatRuleId(ruleId)}: ${errorCount} ${pluralErrors(errorCount)} allowed in all files, but the cap is ${maxErrors}. Remove ${errorCount - maxErrors} to meet the cap.`
+  }
+  const prefix = `  ${pattern}: ${formatRuleId(ruleId)}:`
+  if (kind === "frozen") {
+    return `${prefix} ${SEATBELT_FROZEN}: Expected ${maxErrors} ${pluralErrors(maxErrors)} in matching files, found ${errorCount}. Try running eslint, then committing ${formatFilename(seatbeltFile.filename)}.`
+  }
+  return `${prefix} There are ${errorCount} ${pluralErrors(errorCount)} in matching files, but only ${maxErrors} are allowed. Remove ${errorCount - maxErrors} to meet the budget.`
+}
+
+function pluralErrors(count: number) {
+  return count === 1 ? "error" : "errors"
+}
+
+function flushDeferredChanges() {
+  for (const seatbeltFile of deferredSeatbeltFiles) {
+    seatbeltFile.flushChanges()
+  }
+  deferredSeatbeltFiles.clear()
+}
+
+function logDryRunChanges() {
+  for (const [seatbeltFile, args] of dryRunSeatbeltFiles) {
+    const diff = SeatbeltDiff.fromFiles(
+      SeatbeltStore.openSync(seatbeltFile.filename, args.storage),
+      seatbeltFile,
+    )
+    const displayName = formatFilename(seatbeltFile.filename)
+    if (diff.entries.length === 0) {
+      logStderr(`${SEATBELT_DRY_RUN}: no changes to ${displayName}`)
+      continue
     }
-    seatbeltFile.writeSync()
+    logStderr(
+      `${SEATBELT_DRY_RUN}: would update ${displayName} (${SeatbeltDiff.formatSummary(diff)}):\n${SeatbeltDiff.format(diff, displayName)}`,
+    )
+  }
+  dryRunSeatbeltFiles.clear()
+}
+
+function writeFrozenOutput() {
+  const changed = Array.from(frozenOutputCopies).filter(
+    ([, { copy, args }]) => {
+      for (const filename of copy.filenames()) {
+        if (!fs.existsSync(filename)) {
+          copy.removeFile(filename, args)
+        }
+      }
+      // Violations are reported for the original file.
+      updateBudgets(copy, args)
+      return copy.changed
+    },
+  )
+  frozenOutputCopies.clear()
+  if (changed.length === 0) {
+    return
+  }
+
+  const outputDir = changed[0][1].args.frozenOutput
+  const isDirectory = fs
+    .statSync(outputDir, { throwIfNoEntry: false })
+    ?.isDirectory()
+  if (!isDirectory && changed.length > 1) {
+    throw new Error(
+      `${SEATBELT_FROZEN_OUTPUT}: ${changed.length} seatbelt files changed, but \`${outputDir}\` is not a directory. Create it to write all of them.`,
+    )
+  }
+  for (const [seatbeltFile, { copy, args }] of changed) {
+    const outputFilename = isDirectory
+      ? path.join(
+          args.frozenOutput,
+          path.relative(args.root, seatbeltFile.filename),
+        )
+      : args.frozenOutput
+    copy.writeSync(outputFilename)
+    const diff = SeatbeltDiff.fromFiles(seatbeltFile, copy)
+    logStderr(
+      `${SEATBELT_FROZEN_OUTPUT}: wrote updated ${formatFilename(seatbeltFile.filename)} to ${formatFilename(outputFilename)} (${SeatbeltDiff.formatSummary(diff)}). Copy it over the seatbelt file to apply.`,
+    )
   }
 }
 
@@ -269,26 +649,10 @@ function logEslintRunSummary() {
     ? SeatbeltArgs.getLogger(LAST_VERBOSE_ARGS)
     : logStderr
 
-  const seatbeltFiles = Array.from(VERBOSE_SEATBELT_FILES).map(getSeatbeltFile)
-  const ruleInfo = new Map<string, { allowed: number; inFiles: number }>()
-  const totalInfo = { allowed: 0, inFiles: 0 }
-  for (const seatbeltFile of seatbeltFiles) {
-    for (const filename of seatbeltFile.filenames()) {
-      const maxErrors = seatbeltFile.getMaxErrors(filename)
-      if (maxErrors) {
-        for (const [ruleId, errorCount] of maxErrors.entries()) {
-          const info = getDefault(ruleInfo, ruleId, () => ({
-            allowed: 0,
-            inFiles: 0,
-          }))
-          info.allowed += errorCount
-          info.inFiles++
-          totalInfo.allowed += errorCount
-          totalInfo.inFiles++
-        }
-      }
-    }
-  }
+  const seatbeltFiles = Array.from(VERBOSE_SEATBELT_FILES).map((filename) =>
+    getSeatbeltFile(filename),
+  )
+  const stats = SeatbeltStats.fromFiles(seatbeltFiles)
 
   const ruleStatsMessages: string[] = []
   ruleStatsMessages.push(
@@ -306,12 +670,11 @@ function logEslintRunSummary() {
     )
   }
   ruleStatsMessages.push(`Allowed errors in ${seatbeltFileCount}:\n`)
-  for (const ruleId of Array.from(ruleInfo.keys()).sort()) {
-    const info = ruleInfo.get(ruleId)!
+  for (const info of stats.byRule) {
     const sourceFilesCount =
-      info.inFiles === 1 ? "1 source file" : `${info.inFiles} source files`
+      info.files === 1 ? "1 source file" : `${info.files} source files`
     ruleStatsMessages.push(
-      `  ${ruleId}: ${info.allowed} allowed in ${sourceFilesCount}\n`,
+      `  ${info.name}: ${info.allowed} allowed in ${sourceFilesCount}\n`,
     )
   }
   log(ruleStatsMessages.join(""))
@@ -325,13 +688,32 @@ export function anyDisabled() {
   return ANY_CONFIG_DISABLED
 }
 
-function getDefault<K, V>(map: Map<K, V>, key: K, defaultValue: () => V) {
-  if (!map.has(key)) {
-    const value = defaultValue()
-    map.set(key, value)
-    return value
+let suppressedMessagesSupported: boolean | undefined
+
+/**
+ * True if the running ESLint reports messages with `suppressions` as
+ * suppressed messages, which was added in ESLint 8.8. Older versions report
+ * them like any other message.
+ */
+export function supportsSuppressedMessages(): boolean {
+  if (suppressedMessagesSupported === undefined) {
+    suppressedMessagesSupported = detectSuppressedMessagesSupport()
+  }
+  return suppressedMessagesSupported
+}
+
+function detectSuppressedMessagesSupport(): boolean {
+  try {
+    const requireFromCwd = createRequire(path.join(process.cwd(), "index.js"))
+    const { version } = requireFromCwd("eslint/package.json") as {
+      version: string
+    }
+    const [major, minor] = version.split(".").map(Number)
+    return major > 8 || (major === 8 && minor >= 8)
+  } catch {
+    // ESLint is installed somewhere else. Assume a supported version.
+    return true
   }
-  return map.get(key)!
 }
 
 export function isEslintCli() {
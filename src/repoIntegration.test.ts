@@ -0,0 +1,96 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { findNearestFile } from "./repoIntegration"
+import {
+  clearSeatbeltFileSearchCache,
+  SEATBELT_FILE_NAME,
+  SeatbeltArgs,
+} from "./SeatbeltConfig"
+
+describe("findNearestFile", () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-repo-")),
+    )
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  function touch(relativePath: string) {
+    const filename = path.join(tmpDir, relativePath)
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+    fs.writeFileSync(filename, "")
+    return filename
+  }
+
+  test("finds the nearest ancestor", () => {
+    fs.mkdirSync(path.join(tmpDir, ".git"))
+    touch(SEATBELT_FILE_NAME)
+    const nearest = touch(`packages/ui/${SEATBELT_FILE_NAME}`)
+    fs.mkdirSync(path.join(tmpDir, "packages/ui/src/components"), {
+      recursive: true,
+    })
+
+    assert.strictEqual(
+      findNearestFile(
+        path.join(tmpDir, "packages/ui/src/components"),
+        SEATBELT_FILE_NAME,
+      ),
+      nearest,
+    )
+    assert.strictEqual(
+      findNearestFile(path.join(tmpDir, "packages/api"), SEATBELT_FILE_NAME),
+      path.join(tmpDir, SEATBELT_FILE_NAME),
+    )
+  })
+
+  test("stops at the repository root", () => {
+    touch(SEATBELT_FILE_NAME)
+    fs.mkdirSync(path.join(tmpDir, "repo/.git"), { recursive: true })
+    fs.mkdirSync(path.join(tmpDir, "repo/src"))
+
+    assert.strictEqual(
+      findNearestFile(path.join(tmpDir, "repo/src"), SEATBELT_FILE_NAME),
+      undefined,
+    )
+  })
+
+  test("findSeatbeltFile falls back to cwd", () => {
+    fs.mkdirSync(path.join(tmpDir, ".git"))
+    fs.mkdirSync(path.join(tmpDir, "src"))
+
+    assert.strictEqual(
+      SeatbeltArgs.findSeatbeltFile(tmpDir, path.join(tmpDir, "src")),
+      `${tmpDir}/${SEATBELT_FILE_NAME}`,
+    )
+    const nested = touch(`packages/ui/${SEATBELT_FILE_NAME}`)
+    assert.strictEqual(
+      SeatbeltArgs.findSeatbeltFile(tmpDir, path.join(tmpDir, "packages/ui")),
+      nested,
+    )
+  })
+  test("findSeatbeltFile finds files created after clearing the cache", () => {
+    fs.mkdirSync(path.join(tmpDir, ".git"))
+    fs.mkdirSync(path.join(tmpDir, "packages/ui"), { recursive: true })
+    const fromDir = path.join(tmpDir, "packages/ui")
+
+    assert.strictEqual(
+      SeatbeltArgs.findSeatbeltFile(tmpDir, fromDir),
+      `${tmpDir}/${SEATBELT_FILE_NAME}`,
+    )
+    const created = touch(`packages/ui/${SEATBELT_FILE_NAME}`)
+    assert.strictEqual(
+      SeatbeltArgs.findSeatbeltFile(tmpDir, fromDir),
+      `${tmpDir}/${SEATBELT_FILE_NAME}`,
+    )
+    clearSeatbeltFileSearchCache()
+    assert.strictEqual(SeatbeltArgs.findSeatbeltFile(tmpDir, fromDir), created)
+  })
+})
@@ -4,12 +4,16 @@ import nodePath from "node:path"
 function findAncestorDirectory(
   path: string,
   predicate: (dir: string) => boolean,
+  stopDir?: string,
 ) {
   let lastPath = undefined
   while (path !== lastPath) {
     if (predicate(path)) {
       return path
     }
+    if (path === stopDir) {
+      return undefined
+    }
     lastPath = path
     path = nodePath.dirname(path)
   }
@@ -23,6 +27,20 @@ export function findRepoRoot(path: string) {
   return findAncestorDirectory(path, isGitRoot)
 }
 
+/**
+ * Find the nearest file named `basename` in `dir` or its ancestors, stopping
+ * at the repository root. Without a repository, searches up to the
+ * filesystem root.
+ */
+export function findNearestFile(dir: string, basename: string) {
+  const found = findAncestorDirectory(
+    dir,
+    (ancestor) => fs.existsSync(nodePath.join(ancestor, basename)),
+    findRepoRoot(dir),
+  )
+  return found === undefined ? undefined : nodePath.join(found, basename)
+}
+
 const GIT_ACTION_FILES = [
   // git add, etc
   "index.lock",
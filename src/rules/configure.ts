@@ -32,6 +32,7 @@ export const configure: Rule.RuleModule = {
     const args = pluginGlobals.ruleOverrideConfigToArgs(
       eslintSharedConfig,
       fileOverrideConfig,
+      filename,
     )
     pluginGlobals.pushFileArgs(filename, args)
 
@@ -0,0 +1,111 @@
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { ESLint, type Linter } from "eslint"
+import plugin from "./index"
+import { SeatbeltFile } from "./SeatbeltFile"
+import { wrapConfigs, wrapProcessor } from "./wrapProcessor"
+
+const markdown: Linter.Processor = {
+  meta: { name: "markdown", version: "1.0.0" },
+  preprocess: (text) => [text],
+  postprocess: (messagesPerSection) => messagesPerSection.flat(),
+}
+
+/** Lints each ```js fence as its own code block, like eslint-plugin-markdown. */
+const codeBlocks: Linter.Processor = {
+  meta: { name: "code-blocks", version: "1.0.0" },
+  preprocess: (text) =>
+    Array.from(text.matchAll(/^```js\n([\s\S]*?)^```$/gm), (match, i) => ({
+      text: match[1],
+      filename: `${i}.js`,
+    })),
+  postprocess: (messagesPerSection) => messagesPerSection.flat(),
+}
+
+describe("wrapProcessor", () => {
+  let tmpDir: string
+  let seatbeltFilename: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.realpath(
+      await fs.promises.mkdtemp(path.join(os.tmpdir(), "seatbelt-wrap-")),
+    )
+    seatbeltFilename = path.join(tmpDir, "eslint.seatbelt.tsv")
+    fs.writeFileSync(seatbeltFilename, `"README.md"\t"no-var"\t2\n`)
+    fs.writeFileSync(
+      path.join(tmpDir, "README.md"),
+      [
+        "# Example",
+        "```js",
+        "var a = 1",
+        "```",
+        "```js",
+        "var b = 1",
+        "```",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true })
+  })
+
+  test("counts errors in code blocks under the physical file", async () => {
+    const eslint = new ESLint({
+      cwd: tmpDir,
+      overrideConfigFile: true,
+      overrideConfig: [
+        plugin.configs.enable,
+        {
+          settings: {
+            seatbelt: { seatbeltFile: seatbeltFilename, frozen: false },
+          },
+        },
+        { files: ["**/*.md"], processor: wrapProcessor(codeBlocks) },
+        { files: ["**/*.md/*.js"], rules: { "no-var": "error" } },
+      ],
+    })
+    const [result] = await eslint.lintFiles(["README.md"])
+    assert.deepStrictEqual(
+      result.messages.map(({ severity }) => severity),
+      [1, 1],
+    )
+
+    fs.writeFileSync(
+      path.join(tmpDir, "README.md"),
+      ["```js", "var a = 1", "```", "```js", "let b = 1", "```", ""].join("\n"),
+    )
+    await eslint.lintFiles(["README.md"])
+    assert.deepStrictEqual(
+      SeatbeltFile.readSync(seatbeltFilename).toJSON().data,
+      { "README.md": { "no-var": 1 } },
+    )
+  })
+})
+
+describe("wrapConfigs", () => {
+  test("wraps processors referenced by name", () => {
+    const plugins = { markdown: { processors: { markdown } } }
+    const rules: Linter.RulesRecord = { "no-var": "error" }
+    const [pluginConfig, processorConfig, rulesConfig] = wrapConfigs([
+      { plugins },
+      { files: ["**/*.md"], processor: "markdown/markdown" },
+      { files: ["**/*.md/**"], rules },
+    ])
+    assert.deepStrictEqual(pluginConfig, { plugins })
+    assert.deepStrictEqual(rulesConfig, { files: ["**/*.md/**"], rules })
+    const processor = processorConfig.processor as Linter.Processor
+    assert.strictEqual(processor.meta?.name, "eslint-seatbelt/wrap/markdown")
+  })
+
+  test("throws for unknown processors", () => {
+    assert.throws(
+      () => wrapConfigs({ processor: "markdown/markdown" }),
+      /processor `markdown\/markdown` not found/,
+    )
+  })
+})
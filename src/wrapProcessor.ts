@@ -0,0 +1,113 @@
+import type { ESLint, Linter } from "eslint"
+import packageJson from "../package.json"
+import { SeatbeltProcessor } from "./SeatbeltProcessor"
+import * as pluginGlobals from "./pluginGlobals"
+
+const { name, version } = packageJson
+
+/**
+ * Wrap a processor that splits files into code blocks, like the ones from
+ * eslint-plugin-markdown, eslint-plugin-vue or eslint-plugin-mdx, so seatbelt
+ * can count their errors.
+ *
+ * The inner processor's `preprocess` and `postprocess` run unchanged. Seatbelt
+ * then counts the merged messages of all blocks towards the physical file, so
+ * errors in `README.md/0_0.js` are stored under `README.md`.
+ *
+ * The code blocks still need the `configure` rule, and pass through the plain
+ * seatbelt processor untouched, so keep `configs.enable` for all files.
+ *
+ * ```js
+ * // eslint.config.js
+ * const seatbelt = require("eslint-seatbelt")
+ * const markdown = require("eslint-plugin-markdown")
+ * module.exports = [
+ *   seatbelt.configs.enable,
+ *   {
+ *     files: ["**\/*.md"],
+ *     plugins: { markdown },
+ *     processor: seatbelt.wrapProcessor(markdown.processors.markdown),
+ *   },
+ * ]
+ * ```
+ */
+export function wrapProcessor(inner: Linter.Processor): Linter.Processor {
+  const innerName = inner.meta?.name ?? "processor"
+  return {
+    supportsAutofix: inner.supportsAutofix,
+    meta: {
+      name: `${name}/wrap/${innerName}`,
+      version: `${version}/${inner.meta?.version ?? "0"}`,
+    },
+    preprocess(text, filename) {
+      pluginGlobals.onWrappedPreprocess(filename)
+      SeatbeltProcessor.preprocess?.(text, filename)
+      return inner.preprocess ? inner.preprocess(text, filename) : [text]
+    },
+    postprocess(messagesPerSection, filename) {
+      pluginGlobals.onWrappedPostprocess(filename)
+      const messages = inner.postprocess
+        ? inner.postprocess(messagesPerSection, filename)
+        : messagesPerSection.flat()
+      if (messagesPerSection.length === 0) {
+        // No code blocks ran the configure rule, so there's no config to use.
+        pluginGlobals.popSourceText(filename)
+        return messages
+      }
+      return SeatbeltProcessor.postprocess?.([messages], filename) ?? messages
+    },
+  }
+}
+
+/**
+ * Config preset that wraps every processor in `configs` with
+ * {@link wrapProcessor}. Processors given by name like `"markdown/markdown"`
+ * are looked up in the plugins of `configs`.
+ *
+ * ```js
+ * // eslint.config.js
+ * const seatbelt = require("eslint-seatbelt")
+ * const markdown = require("eslint-plugin-markdown")
+ * module.exports = [
+ *   seatbelt.configs.enable,
+ *   ...seatbelt.wrapConfigs(markdown.configs.recommended),
+ * ]
+ * ```
+ */
+export function wrapConfigs(
+  configs: Linter.Config | Linter.Config[],
+): Linter.Config[] {
+  const list = Array.isArray(configs) ? configs : [configs]
+  const plugins: Record<string, ESLint.Plugin> = Object.assign(
+    {},
+    ...list.map((config) => config.plugins ?? {}),
+  )
+  return list.map((config) => {
+    if (config.processor === undefined) {
+      return config
+    }
+    return {
+      ...config,
+      processor: wrapProcessor(resolveProcessor(config.processor, plugins)),
+    }
+  })
+}
+
+function resolveProcessor(
+  processor: string | Linter.Processor,
+  plugins: Record<string, ESLint.Plugin>,
+): Linter.Processor {
+  if (typeof processor !== "string") {
+    return processor
+  }
+  const separator = processor.lastIndexOf("/")
+  const pluginName = processor.slice(0, separator)
+  const processorName = processor.slice(separator + 1)
+  const resolved = plugins[pluginName]?.processors?.[processorName]
+  if (!resolved) {
+    throw new Error(
+      `${name}: processor \`${processor}\` not found in the plugins of the wrapped configs. Pass the processor object to wrapProcessor instead.`,
+    )
+  }
+  return resolved
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/api.ts", "src/command.ts"],
+  entry: ["src/index.ts", "src/api.ts", "src/command.ts", "src/formatter.ts"],
   format: ["esm", "cjs"],
   dts: true,
   clean: true,